@@ -0,0 +1,142 @@
+// 局域网 WebSocket 中继：只按房间转发 Packet，不参与任何游戏逻辑（权威仍在房主的 Game 上）
+//
+// 用法: npm run relay [-- --port 8787]
+// 客户端通过 ?relay=ws://<ip>:8787 使用 WebSocketTransport 连接
+//
+// 消息格式（JSON）:
+//   relay -> client  { type: "open", id }               分配 ID，房间号即房主 ID
+//   client -> relay  { type: "join", room }              加入某个房主的房间
+//   relay -> client  { type: "peer-open", id }           与对端建立连接
+//   relay -> client  { type: "peer-close", id }          对端断开
+//   client -> relay  { type: "leave", peer }             断开与某个对端的连接
+//   client -> relay  { type: "packet", to?, packet }     发送 Packet（无 to 为广播）
+//   relay -> client  { type: "packet", from, packet }    转发 Packet
+//   client -> relay  { type: "register", room }          把房间号映射到自己的 ID
+//   relay -> client  { type: "registered", room, ok }    房间号被占用时 ok 为 false
+//   client -> relay  { type: "resolve", room }           查询房间号
+//   relay -> client  { type: "resolved", room, id }      房主 ID，未找到为 null
+//   client -> relay  { type: "release" }                 释放自己的房间号
+
+import { WebSocketServer } from "ws";
+import { randomBytes } from "node:crypto";
+
+const portArgIndex = process.argv.indexOf("--port");
+const port = Number(
+  portArgIndex !== -1 ? process.argv[portArgIndex + 1] : process.env.PORT || 8787
+);
+
+/** @type {Map<string, { socket: import("ws").WebSocket, links: Set<string>, room: string | null }>} */
+const clients = new Map();
+/** @type {Map<string, string>} 房间号 -> 房主 ID */
+const rooms = new Map();
+
+function createId() {
+  let id;
+  do {
+    id = "r-" + randomBytes(4).toString("hex");
+  } while (clients.has(id));
+  return id;
+}
+
+function sendTo(id, message) {
+  const client = clients.get(id);
+  if (client && client.socket.readyState === client.socket.OPEN) {
+    client.socket.send(JSON.stringify(message));
+  }
+}
+
+function link(a, b) {
+  const clientA = clients.get(a);
+  const clientB = clients.get(b);
+  if (!clientA || !clientB || a === b || clientA.links.has(b)) return;
+  clientA.links.add(b);
+  clientB.links.add(a);
+  sendTo(a, { type: "peer-open", id: b });
+  sendTo(b, { type: "peer-open", id: a });
+}
+
+function unlink(a, b) {
+  const clientA = clients.get(a);
+  const clientB = clients.get(b);
+  if (!clientA || !clientA.links.delete(b)) return;
+  clientB?.links.delete(a);
+  sendTo(a, { type: "peer-close", id: b });
+  sendTo(b, { type: "peer-close", id: a });
+}
+
+function releaseRoom(id) {
+  const client = clients.get(id);
+  if (!client || client.room === null) return;
+  rooms.delete(client.room);
+  client.room = null;
+}
+
+function registerRoom(id, room) {
+  const owner = rooms.get(room);
+  const ok = owner === undefined || owner === id;
+  if (ok) {
+    releaseRoom(id);
+    rooms.set(room, id);
+    clients.get(id).room = room;
+  }
+  sendTo(id, { type: "registered", room, ok });
+}
+
+function unlinkAll(id) {
+  const client = clients.get(id);
+  if (!client) return;
+  client.links.forEach((peerId) => {
+    clients.get(peerId)?.links.delete(id);
+    sendTo(peerId, { type: "peer-close", id });
+  });
+  client.links.clear();
+}
+
+const server = new WebSocketServer({ port });
+
+server.on("connection", (socket) => {
+  const id = createId();
+  clients.set(id, { socket, links: new Set(), room: null });
+  sendTo(id, { type: "open", id });
+
+  socket.on("message", (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    if (!message || typeof message !== "object") return;
+
+    if (message.type === "join" && typeof message.room === "string") {
+      link(id, message.room);
+    } else if (message.type === "leave" && typeof message.peer === "string") {
+      unlink(id, message.peer);
+    } else if (message.type === "register" && typeof message.room === "string") {
+      registerRoom(id, message.room);
+    } else if (message.type === "resolve" && typeof message.room === "string") {
+      sendTo(id, { type: "resolved", room: message.room, id: rooms.get(message.room) ?? null });
+    } else if (message.type === "release") {
+      releaseRoom(id);
+    } else if (message.type === "packet" && message.packet) {
+      const client = clients.get(id);
+      if (!client) return;
+      // 只转发给已建立连接的对端（同一房间）
+      const targets =
+        typeof message.to === "string" ? [message.to] : Array.from(client.links);
+      targets.forEach((target) => {
+        if (client.links.has(target)) {
+          sendTo(target, { type: "packet", from: id, packet: message.packet });
+        }
+      });
+    }
+  });
+
+  socket.on("close", () => {
+    releaseRoom(id);
+    unlinkAll(id);
+    clients.delete(id);
+  });
+});
+
+console.log(`Relay listening on ws://0.0.0.0:${port}`);
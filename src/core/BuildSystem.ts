@@ -354,12 +354,16 @@ export class BuildSystem {
   /**
    * 验证放置是否有效
    */
-  public isValidPlacement(itemId: string, position: THREE.Vector3): boolean {
+  public isValidPlacement(
+    itemId: string,
+    position: THREE.Vector3,
+    rotationIndex: number = this.rotation // 房主校验其他玩家的放置时传入对方的旋转
+  ): boolean {
     // 1. AABB 重叠检测
     let halfExtents = new CANNON.Vec3(0.45, 0.45, 0.45);
 
     if (itemId === "wood_block_321") {
-      if (this.rotation % 2 === 0) {
+      if (rotationIndex % 2 === 0) {
         halfExtents.set(1.45, 0.45, 0.95);
       } else {
         halfExtents.set(0.95, 0.45, 1.45);
@@ -444,7 +448,8 @@ export class BuildSystem {
   public placeObject(
     itemId: string,
     position: THREE.Vector3,
-    rotationIndex: number = 0
+    rotationIndex: number,
+    owner: string // 放置者的玩家 ID，陷阱击杀得分记给他
   ): Crossbow | BlackHole | GoldCoin | Cannon | null {
     let mesh: THREE.Group | undefined;
     let body: CANNON.Body | undefined;
@@ -520,7 +525,7 @@ export class BuildSystem {
         )}, body.y=${body.position.y.toFixed(3)}`
       );
 
-      if (tag) (body as any).userData = { tag: tag, owner: "local" };
+      if (tag) (body as any).userData = { tag: tag, owner: owner };
       (body as any).meshReference = mesh;
       body.material = this.physicsWorld.world.defaultMaterial;
 
@@ -536,7 +541,8 @@ export class BuildSystem {
             body,
             arrowModel,
             this.scene,
-            this.physicsWorld.world
+            this.physicsWorld.world,
+            owner
           );
           this.crossbows.push(crossbow);
           return crossbow;
@@ -546,17 +552,17 @@ export class BuildSystem {
           mesh,
           body,
           this.physicsWorld.world,
-          "local"
+          owner
         );
         this.blackHoles.push(blackHole);
         return blackHole;
       } else if (itemId === "gold") {
-        const goldCoin = new GoldCoin(mesh, body, "local");
+        const goldCoin = new GoldCoin(mesh, body, owner);
         this.goldCoins.push(goldCoin);
         return goldCoin;
       } else if (itemId === "cannon") {
         const rotationY = (rotationIndex * Math.PI) / 2;
-        const cannon = new Cannon(mesh, body, rotationY, "local");
+        const cannon = new Cannon(mesh, body, rotationY, owner);
         this.cannons.push(cannon);
         return cannon;
       }
@@ -743,6 +749,14 @@ export class BuildSystem {
     this.cannons = [];
   }
 
+  /**
+   * RUN 开始时重置所有陷阱的计时，之后由共享的回合时钟驱动
+   */
+  public resetTrapClocks(): void {
+    this.crossbows.forEach((c) => c.resetClock());
+    this.cannons.forEach((c) => c.resetClock());
+  }
+
   /**
    * 清理所有工具
    */
@@ -2,15 +2,51 @@ import * as THREE from "three";
 import * as CANNON from "cannon-es";
 import { PhysicsWorld } from "../physics/PhysicsWorld";
 import { NetworkManager } from "../network/NetworkManager";
+import { Transport } from "../network/Transport";
+import {
+  NetworkConfig,
+  DEFAULT_NETWORK_CONFIG,
+} from "../network/NetworkConfig";
+import { SnapshotCodec } from "../network/SnapshotCodec";
+import { SnapshotBuffer } from "../network/SnapshotBuffer";
+import { ClientPrediction } from "../network/ClientPrediction";
+import { electHost } from "../network/HostElection";
+import { ClockSync } from "../network/ClockSync";
+import { parseRecording } from "../network/MatchRecording";
+import { RateLimiter } from "../network/RateLimiter";
+import {
+  ReplayTransport,
+  REPLAY_HOST_ID,
+} from "../network/transports/ReplayTransport";
+import {
+  normalizeRoomCode,
+  readRoomCode,
+  clearRoomCodeFromUrl,
+} from "../network/RoomCode";
+import {
+  PROTOCOL_VERSION,
+  SUPPORTED_FEATURES,
+  intersectFeatures,
+  negotiateJoin,
+  getReconnectToken,
+} from "../network/Handshake";
 import {
   Packet,
   PacketType,
   PlayerInfo,
   SnapshotPayload,
   ChatPayload,
-  MapSelectPayload,
-  MapVotesPayload,
-  MapChosenPayload,
+  InputPayload,
+  MovementAuthority,
+  PlayerFinishedRunPayload,
+  EventPlacePayload,
+  ResyncPayload,
+  ProtocolFeature,
+  PingPayload,
+  JoinPayload,
+  GameWinner,
+  GameWinPayload,
+  StartGamePayload,
 } from "../network/Protocol";
 import { Resources } from "./Resources";
 import { Loop } from "./Loop";
@@ -18,13 +54,28 @@ import { UIManager } from "../ui/UIManager";
 import { InputManager } from "./InputManager";
 import { Player } from "../objects/Player";
 import { CharacterRig } from "../objects/character/CharacterRig";
-import { getCharacterAppearance } from "../objects/character/CharacterRegistry";
+import {
+  getCharacterAppearance,
+  listCharacterAppearances,
+} from "../objects/character/CharacterRegistry";
+import { isCharacterAnimState } from "../objects/character/CharacterAppearance";
+import {
+  sanitizeChatMessage,
+  sanitizeNickname,
+  nicknameKey,
+} from "../utils/TextSanitizer";
 import { BodyFactory } from "../physics/BodyFactory";
 import { CameraController } from "./CameraController";
 import { BuildSystem } from "./BuildSystem";
-import { ScoreManager } from "./ScoreManager";
+import { ScoreManager, PlayerScoreResult } from "./ScoreManager";
+import { ScoreLedgerData } from "./ScoreLedger";
 import { LevelManager } from "./LevelManager";
 import { PartyBoxManager } from "./PartyBoxManager";
+import {
+  MatchRules,
+  DEFAULT_MATCH_RULES,
+  normalizeMatchRules,
+} from "./MatchRules";
 import { Crossbow } from "../objects/traps/Crossbow";
 import { AudioManager } from "../audio/AudioManager";
 import {
@@ -53,6 +104,7 @@ export class Game {
   private renderer: THREE.WebGLRenderer;
   private physicsWorld: PhysicsWorld;
   private networkManager: NetworkManager;
+  private networkConfig: NetworkConfig;
   private resources: Resources;
   private loop: Loop;
   private uiManager: UIManager;
@@ -75,6 +127,52 @@ export class Game {
   // 多人游戏
   private lobbyPlayers: PlayerInfo[] = [];
   private playersFinishedTurn: Set<string> = new Set();
+  private pickedItems: Map<string, number> = new Map(); // 本回合已选但未放置的物品
+  private pendingPlacement: EventPlacePayload | null = null; // 等待房主确认的放置
+  private hostId: string = "";
+  private joinAsSpectator: boolean = false; // 标题画面勾选了只观战
+
+  // 比赛录像与回放
+  private matchSeed: number = 0; // Party Box 物品种子
+  private matchRules: MatchRules = { ...DEFAULT_MATCH_RULES }; // 房主在大厅中编辑，开始比赛时下发
+  private replay: ReplayTransport | null = null; // 回放中时为回放传输
+  private liveTransport: Transport | null = null; // 回放期间保存的真实传输
+  private roomCode: string | null = null; // 本房间的房间号（所有人都记录，房主迁移时沿用）
+  private pendingRoomCode: string | null = readRoomCode(); // 分享链接中的房间号，ID 就绪后自动加入
+
+  // 房主迁移：新房主等待其他玩家重连后再继续，超时未重连的玩家视为离开
+  private static readonly MIGRATION_RESUME_DELAY = 3000;
+  private static readonly MIGRATION_RECONNECT_TIMEOUT = 10000;
+  private hostMigrated: boolean = false;
+  private localRunResult: PlayerFinishedRunPayload | null = null;
+  private lastRoundScores: PlayerScoreResult[] | null = null;
+
+  // 中途加入/重连的状态同步
+  private placedItemRounds: EventPlacePayload[][] = []; // 按回合记录已放置的物品
+  private departedPlayerIds: Map<string, string> = new Map(); // 比赛中离开的玩家的重连令牌 -> 原 ID，重新加入时恢复分数
+  private reconnectTokens: Map<string, string> = new Map(); // 房主记录：玩家 ID -> 重连令牌，不下发给其他人
+
+  // 协议握手：本场会话启用的可选功能
+  private static readonly REJECT_DISCONNECT_DELAY = 1000;
+
+  // 房主管理：人数上限（观战者不计）、锁定和封禁，只在本机担任房主期间有效
+  private maxPlayers: number = Game.PLAYER_COLORS.length;
+  private lobbyLocked: boolean = false;
+  private bannedIds: Set<string> = new Set();
+  private bannedNicknames: Set<string> = new Set(); // Peer ID 每次打开页面都会变，同时按昵称封禁
+  private rateLimiter: RateLimiter = new RateLimiter(); // 房主对聊天、拾取、投票和改名限流
+  private sessionFeatures: ProtocolFeature[] = SUPPORTED_FEATURES;
+  private playerFeatures: Map<string, ProtocolFeature[]> = new Map(); // 房主记录每个客户端协商结果
+
+  // 延迟测量与时钟同步
+  private static readonly PING_INTERVAL = 1000;
+  private static readonly PING_BROADCAST_INTERVAL = 2000;
+  private clockSync: ClockSync = new ClockSync();
+  private lastPingSentAt: number = 0;
+  private playerPings: Map<string, number> = new Map();
+  private countdownStartedAt: number | null = null; // 房主时钟
+  private runStartedAt: number | null = null; // 房主时钟，陷阱计时的起点
+  private buildPhaseStartedAt: number | null = null; // 本机进入选择阶段的时间，用于放置时限
   private myPlayerInfo: PlayerInfo = {
     id: "",
     nickname: "Player",
@@ -102,6 +200,8 @@ export class Game {
   private playerColorMap: Map<string, string> = new Map();
 
   // 游戏状态
+  private static readonly COUNTDOWN_DURATION = 3.0;
+  private static readonly COUNTDOWN_GO_DURATION = 0.8; // "GO!" 停留时间
   private state: GameState = -1 as GameState;
   private raycaster: THREE.Raycaster = new THREE.Raycaster();
   private mouse: THREE.Vector2 = new THREE.Vector2();
@@ -109,7 +209,26 @@ export class Game {
   // 倒计时
   private countdownTimer: number = 0;
 
-  constructor() {
+  // 快照发送（按 networkConfig.snapshotRate 节流，与渲染帧率解耦）
+  private lastSnapshotSentAt: number = 0;
+  private snapshotSeq: number = 0;
+  private lastSnapshotSeqs: Map<string, number> = new Map();
+  private snapshotBuffers: Map<string, SnapshotBuffer> = new Map();
+
+  // 移动权威：client 为各自模拟并上报位置，host 为房主模拟所有玩家（客户端预测 + 修正）
+  private movementAuthority: MovementAuthority = "client";
+  private clientPrediction: ClientPrediction = new ClientPrediction();
+  private remoteInputs: Map<string, InputPayload> = new Map(); // 每名远程玩家最后应用的输入
+  private remoteInputQueues: Map<string, InputPayload[]> = new Map(); // 已收到、尚未应用的输入
+  private static readonly MAX_QUEUED_INPUTS = 8; // 客户端帧率高于房主时队列会增长，限制延迟
+  private lastInputSentAt: number = 0;
+  private runResultHints: Map<string, number> = new Map(); // 客户端上报结束的时间，房主模拟只以此为提示
+  private static readonly RUN_RESULT_HINT_GRACE = 2000;
+
+  constructor(
+    transport?: Transport,
+    networkConfig: NetworkConfig = DEFAULT_NETWORK_CONFIG
+  ) {
     // 初始化渲染器
     this.scene = new THREE.Scene();
     this.camera = new THREE.PerspectiveCamera(
@@ -128,7 +247,8 @@ export class Game {
 
     // 初始化核心组件
     this.physicsWorld = new PhysicsWorld();
-    this.networkManager = new NetworkManager();
+    this.networkManager = new NetworkManager(transport);
+    this.networkConfig = networkConfig;
     this.resources = new Resources();
     this.uiManager = new UIManager();
     this.inputManager = new InputManager();
@@ -178,6 +298,8 @@ export class Game {
       this.setupEvents();
       this.setupNetworkHandlers();
       this.setState(GameState.TITLE);
+      // 资源加载期间 ID 可能已经就绪
+      this.joinRoomFromLink();
     });
 
     // 窗口大小调整
@@ -228,13 +350,30 @@ export class Game {
   }
 
   private setupChatSystem(): void {
+    this.rateLimiter.onMuted = (senderId, durationMs) => {
+      const seconds = Math.round(durationMs / 1000);
+      this.networkManager.send(
+        {
+          t: PacketType.CHAT,
+          p: { nickname: "System", message: `You are sending too fast and are muted for ${seconds}s.` },
+        },
+        senderId
+      );
+      this.uiManager.addChatMessage(
+        "System",
+        `${this.getPlayerNickname(senderId)} was muted for ${seconds}s`,
+        "#AAAAAA"
+      );
+    };
+
     this.uiManager.setChatCallback((message: string) => {
       const myColor = this.getPlayerColor(this.myPlayerInfo.id);
       const chatPayload: ChatPayload = {
         nickname: this.myPlayerInfo.nickname,
-        message: message,
+        message: sanitizeChatMessage(message),
         playerId: this.myPlayerInfo.id,
       };
+      if (!chatPayload.message) return;
 
       this.uiManager.addChatMessage(chatPayload.nickname, chatPayload.message, myColor);
       this.networkManager.send({
@@ -269,10 +408,7 @@ export class Game {
 
       if (this.state === GameState.BUILD_VIEW) {
         this.cameraController.updateBuildViewCamera(event.movementX);
-      } else if (
-        this.state === GameState.RUN &&
-        !this.playersFinishedTurn.has(this.networkManager.getMyId())
-      ) {
+      } else if (this.state === GameState.RUN && !this.isLocalTurnOver()) {
         if (event.buttons === 1 || event.buttons === 2) {
           this.cameraController.handleFreeLook(
             event.movementX,
@@ -305,8 +441,24 @@ export class Game {
         }
       }
 
+      if (event.key === "F9") {
+        // 下载最近一场比赛的录像（用于报告不同步问题）
+        event.preventDefault();
+        if (!this.networkManager.recorder.download()) {
+          this.uiManager.showMessage("No match recorded yet");
+        }
+      }
+
       if (event.key === "Escape") {
-        if (this.state === GameState.BUILD_PLACE) {
+        if (this.replay) {
+          if (this.state === GameState.TITLE) {
+            // 比赛数据包还没到，仍停留在标题画面
+            this.stopReplay();
+            this.showTitleScreen();
+          } else {
+            this.setState(GameState.TITLE);
+          }
+        } else if (this.state === GameState.BUILD_PLACE) {
           this.setState(GameState.BUILD_VIEW);
         }
       } else if (event.code === "KeyQ") {
@@ -333,6 +485,9 @@ export class Game {
       const consumed = this.uiManager.handleClick();
       if (consumed) return;
 
+      // 观战者（包括中途加入、等待下一回合的玩家）不能选物品和放置
+      if (this.isLocalSpectating()) return;
+
       if (this.state === GameState.PICK) {
         this.handlePickClick();
       } else if (this.state === GameState.BUILD_VIEW) {
@@ -401,6 +556,9 @@ export class Game {
   }
 
   private handleBuildPlaceClick(): void {
+    // 等待房主确认上一次放置
+    if (this.pendingPlacement) return;
+
     if (this.buildSystem.ghostObject && this.buildSystem.selectedItem) {
       if (
         this.buildSystem.isValidPlacement(
@@ -408,41 +566,24 @@ export class Game {
           this.buildSystem.ghostObject.position
         )
       ) {
-        const placedObject = this.buildSystem.placeObject(
-          this.buildSystem.selectedItem,
-          this.buildSystem.ghostObject.position,
-          this.buildSystem.rotation
-        );
-
-        // 只有十字弓需要附加音频
-        if (placedObject && placedObject instanceof Crossbow) {
-          this.attachCrossbowAudio(placedObject);
-        }
-
-        this.audio.playSfx(AudioIds.BuildPlace);
-
-        this.playersFinishedTurn.add(this.networkManager.getMyId());
-
-        this.networkManager.send({
-          t: PacketType.EVENT_PLACE,
-          p: {
-            itemId: this.buildSystem.selectedItem,
-            pos: {
-              x: this.buildSystem.ghostObject.position.x,
-              y: this.buildSystem.ghostObject.position.y,
-              z: this.buildSystem.ghostObject.position.z,
-            },
-            rot: this.buildSystem.rotation,
-            playerId: this.networkManager.getMyId(),
+        const placement: EventPlacePayload = {
+          itemId: this.buildSystem.selectedItem,
+          pos: {
+            x: this.buildSystem.ghostObject.position.x,
+            y: this.buildSystem.ghostObject.position.y,
+            z: this.buildSystem.ghostObject.position.z,
           },
-        });
+          rot: this.buildSystem.rotation,
+          playerId: this.networkManager.getMyId(),
+        };
 
-        this.checkAllPlayersFinished();
+        this.networkManager.send({ t: PacketType.EVENT_PLACE, p: placement });
 
-        if (this.state === GameState.BUILD_PLACE) {
-          this.uiManager.showMessage("Waiting for other players...");
-          this.buildSystem.removeGhost();
-          this.buildSystem.setHighlightVisible(false);
+        if (this.networkManager.isHostUser()) {
+          this.confirmLocalPlacement(placement);
+        } else {
+          // 房主校验通过并转发回来后才真正放置
+          this.pendingPlacement = placement;
         }
       } else {
         this.audio.playSfx(AudioIds.BuildInvalid);
@@ -451,6 +592,81 @@ export class Game {
     }
   }
 
+  /**
+   * 自己的放置生效：房主直接生效，客户端在收到房主转发的 EVENT_PLACE 后生效
+   */
+  private confirmLocalPlacement(placement: EventPlacePayload): void {
+    this.pendingPlacement = null;
+    this.placeItem(placement);
+
+    this.audio.playSfx(AudioIds.BuildPlace);
+
+    this.playersFinishedTurn.add(this.networkManager.getMyId());
+    this.pickedItems.delete(this.networkManager.getMyId());
+
+    this.checkAllPlayersFinished();
+
+    if (this.state === GameState.BUILD_PLACE) {
+      this.uiManager.showMessage("Waiting for other players...");
+      this.buildSystem.removeGhost();
+      this.buildSystem.setHighlightVisible(false);
+    }
+  }
+
+  /**
+   * 房主校验客户端的放置：必须是本回合选中的物品、尚未放置过，且位置有效
+   * 返回拒绝原因，通过时返回 null
+   */
+  private validatePlacement(placement: EventPlacePayload, senderId: string): string | null {
+    const isBuildPhase =
+      this.state === GameState.PICK ||
+      this.state === GameState.BUILD_VIEW ||
+      this.state === GameState.BUILD_PLACE;
+    if (!isBuildPhase) return "Building has ended";
+    if (placement.playerId !== senderId) return "Invalid placement";
+    const sender = this.lobbyPlayers.find((p) => p.id === senderId);
+    if (!sender) return "Invalid placement";
+    if (!this.isParticipant(sender)) return "Spectators cannot place items";
+    if (this.playersFinishedTurn.has(senderId)) return "You already placed an item";
+
+    const pickedIndex = this.pickedItems.get(senderId);
+    if (
+      pickedIndex === undefined ||
+      this.partyBoxManager.getItemId(pickedIndex) !== placement.itemId
+    ) {
+      return "You did not pick that item";
+    }
+
+    const position = new THREE.Vector3(placement.pos.x, placement.pos.y, placement.pos.z);
+    if (!this.buildSystem.isValidPlacement(placement.itemId, position, placement.rot || 0)) {
+      return "Invalid placement";
+    }
+
+    return null;
+  }
+
+  /**
+   * 放置物品并记录下来，供中途加入的玩家重建场景
+   */
+  private placeItem(placement: EventPlacePayload): void {
+    const placedObject = this.buildSystem.placeObject(
+      placement.itemId,
+      new THREE.Vector3(placement.pos.x, placement.pos.y, placement.pos.z),
+      placement.rot || 0,
+      placement.playerId
+    );
+
+    // 只有十字弓需要附加音频
+    if (placedObject && placedObject instanceof Crossbow) {
+      this.attachCrossbowAudio(placedObject);
+    }
+
+    if (this.placedItemRounds.length === 0) {
+      this.placedItemRounds.push([]);
+    }
+    this.placedItemRounds[this.placedItemRounds.length - 1].push(placement);
+  }
+
   private attachCrossbowAudio(crossbow: Crossbow): void {
     crossbow.onFire = () => {
       this.audio.playSfx(AudioIds.CrossbowFire);
@@ -467,9 +683,22 @@ export class Game {
       this.myPlayerInfo.id = id;
       if (this.state === GameState.LOBBY) {
         this.refreshLobbyUI();
+        if (this.networkManager.isHostUser()) {
+          void this.openRoom();
+        }
+      } else if (this.state === GameState.TITLE) {
+        this.joinRoomFromLink();
       }
     };
 
+    this.networkManager.onPeerConnected = (peerId) => {
+      this.handlePeerConnected(peerId);
+    };
+
+    this.networkManager.onPeerDisconnected = (peerId) => {
+      this.handlePeerDisconnected(peerId);
+    };
+
     this.networkManager.onPacketReceived = (
       packet: Packet,
       senderId: string
@@ -490,28 +719,70 @@ export class Game {
         case PacketType.NICKNAME_CHANGE:
           this.handleNicknameChangePacket(packet, senderId);
           break;
+        case PacketType.SPECTATE:
+          if (this.networkManager.isHostUser()) {
+            this.setSpectator(senderId, packet.p.spectator);
+          }
+          break;
         case PacketType.START_GAME:
-          if (!this.networkManager.isHostUser()) this.startGame();
+          if (!this.networkManager.isHostUser()) {
+            this.movementAuthority = packet.p.authority || "client";
+            if (packet.p.features) {
+              this.sessionFeatures = intersectFeatures(packet.p.features);
+            }
+            if (packet.p.seed !== undefined) {
+              this.matchSeed = packet.p.seed;
+            }
+            this.applyMatchRules(
+              packet.p.rules ? normalizeMatchRules(packet.p.rules) : { ...DEFAULT_MATCH_RULES }
+            );
+            this.scoreManager.setSuddenDeath(packet.p.suddenDeath ?? null);
+            if (packet.p.suddenDeath) {
+              this.announceSuddenDeath(packet.p.suddenDeath);
+            }
+            if (this.state === GameState.LOBBY) {
+              this.beginRecording();
+            }
+            this.startGame();
+          }
+          break;
+        case PacketType.INPUT:
+          this.handleInputPacket(packet, senderId);
           break;
         case PacketType.SNAPSHOT:
-          this.handleSnapshot(packet.p);
-          if (this.networkManager.isHostUser()) {
-            this.networkManager.send(packet);
+          this.receiveSnapshot(packet, packet.p, senderId);
+          break;
+        case PacketType.SNAPSHOT_BINARY: {
+          const snapshot = SnapshotCodec.decode(packet.p);
+          if (snapshot) {
+            this.receiveSnapshot(packet, snapshot, senderId);
           }
           break;
+        }
         case PacketType.EVENT_PLACE:
           this.handleEventPlacePacket(packet, senderId);
           break;
+        case PacketType.PLACE_REJECTED:
+          if (senderId === this.hostId) {
+            this.handlePlaceRejected(packet);
+          }
+          break;
         case PacketType.PARTY_BOX_UPDATE:
           this.partyBoxManager.spawnItems(packet.p);
           break;
         case PacketType.PICK_ITEM:
-          if (this.networkManager.isHostUser()) {
+          if (
+            this.networkManager.isHostUser() &&
+            this.rateLimiter.allow(senderId, "pick")
+          ) {
             this.processPickRequest(packet.p.index, senderId);
           }
           break;
         case PacketType.ITEM_PICKED:
-          this.handleItemPicked(packet.p.index, packet.p.playerId);
+          // 只接受房主的确认，房主自己只在 processPickRequest 中记录选择
+          if (!this.networkManager.isHostUser() && senderId === this.hostId) {
+            this.handleItemPicked(packet.p.index, packet.p.playerId);
+          }
           break;
         case PacketType.PLAYER_FINISHED_RUN:
           this.handlePlayerFinishedRun(packet, senderId);
@@ -519,9 +790,11 @@ export class Game {
         case PacketType.SHOW_SCORE:
           if (!this.networkManager.isHostUser()) {
             this.setState(GameState.SCORE);
+            this.applyScoreLedger(packet.p.ledger);
             this.uiManager.showScoreScreen(
-              packet.p.scores,
-              ScoreManager.GOAL_SCORE,
+              this.scoreManager.getLedger(),
+              this.matchRules,
+              (playerId) => this.getScorePlayerColor(playerId),
               () => {}
             );
           }
@@ -530,19 +803,21 @@ export class Game {
           if (!this.networkManager.isHostUser()) {
             this.audio.playSfx(AudioIds.Win);
             this.uiManager.showWinScreen(
-              packet.p.nickname,
-              packet.p.character,
+              packet.p.winners,
+              packet.p.reason,
               () => {
-                this.lobbyPlayers.forEach((p) => {
-                  (p as any).totalScore = 0;
-                });
-                this.setState(GameState.LOBBY);
+                this.scoreManager.resetAll();
+                this.setState(this.replay ? GameState.TITLE : GameState.LOBBY);
               }
             );
           }
           break;
         case PacketType.CHAT:
-          const chatPayload = packet.p as ChatPayload;
+          if (this.networkManager.isHostUser()) {
+            this.handleChatRequest(packet, senderId);
+            break;
+          }
+          const chatPayload = packet.p;
           // 根据发送者 ID 获取玩家颜色
           const senderColor = chatPayload.playerId 
             ? this.getPlayerColor(chatPayload.playerId) 
@@ -552,9 +827,6 @@ export class Game {
             chatPayload.message,
             senderColor
           );
-          if (this.networkManager.isHostUser()) {
-            this.networkManager.send(packet);
-          }
           break;
         case PacketType.MAP_SELECT:
           this.handleMapSelectPacket(packet, senderId);
@@ -565,21 +837,414 @@ export class Game {
         case PacketType.MAP_CHOSEN:
           this.handleMapChosenPacket(packet);
           break;
+        case PacketType.PLAYER_LEFT:
+          if (!this.networkManager.isHostUser()) {
+            this.removePlayer(packet.p.playerId);
+          }
+          break;
+        case PacketType.RESYNC:
+          if (!this.networkManager.isHostUser()) {
+            void this.handleResyncPacket(packet);
+          }
+          break;
+        case PacketType.EVENT_STATE:
+          if (!this.networkManager.isHostUser() && senderId === this.hostId) {
+            this.handleEventStatePacket(packet);
+          }
+          break;
+        case PacketType.PING:
+          if (this.networkManager.isHostUser()) {
+            this.handlePingPacket(packet, senderId);
+          }
+          break;
+        case PacketType.PONG:
+          if (senderId === this.hostId) {
+            this.clockSync.addSample(packet.p.sentAt, packet.p.hostTime, Date.now());
+          }
+          break;
+        case PacketType.PLAYER_PINGS:
+          if (!this.networkManager.isHostUser()) {
+            this.playerPings = new Map(Object.entries(packet.p.pings));
+            this.refreshLobbyPlayerList();
+          }
+          break;
+        case PacketType.TURN_FORFEIT:
+          if (!this.networkManager.isHostUser() && senderId === this.hostId) {
+            this.forfeitTurns(packet.p.playerIds);
+          }
+          break;
+        case PacketType.JOIN_REJECTED:
+        case PacketType.KICKED:
+          if (!this.networkManager.isHostUser() && senderId === this.hostId) {
+            this.leaveHost(packet.p.reason);
+          }
+          break;
       }
     };
   }
 
-  private handleJoinPacket(packet: Packet, senderId: string): void {
+  private handlePeerConnected(peerId: string): void {
+    if (this.networkManager.isHostUser() || peerId !== this.hostId) return;
+
+    this.networkManager.send(
+      {
+        t: PacketType.JOIN,
+        p: {
+          nickname: this.myPlayerInfo.nickname,
+          version: PROTOCOL_VERSION,
+          features: SUPPORTED_FEATURES,
+          ...(this.joinAsSpectator ? { spectator: true } : {}),
+          reconnectToken: getReconnectToken(),
+        },
+      },
+      peerId
+    );
+
+    // 旧房主没来得及确认的放置重新提交给新房主
+    if (this.pendingPlacement) {
+      this.networkManager.send(
+        { t: PacketType.EVENT_PLACE, p: this.pendingPlacement },
+        peerId
+      );
+    }
+
+    // 房主迁移后重新上报本回合结果（旧房主记录的结果已丢失）
+    if (this.state === GameState.RUN && this.localRunResult) {
+      this.networkManager.send(
+        { t: PacketType.PLAYER_FINISHED_RUN, p: this.localRunResult },
+        peerId
+      );
+    }
+  }
+
+  private handlePeerDisconnected(peerId: string): void {
+    if (this.networkManager.isHostUser()) {
+      if (!this.lobbyPlayers.some((p) => p.id === peerId)) return;
+
+      this.networkManager.send({
+        t: PacketType.PLAYER_LEFT,
+        p: { playerId: peerId },
+      });
+      this.removePlayer(peerId);
+      this.broadcastLobbyUpdate();
+      this.broadcastMapVotes();
+    } else if (peerId === this.hostId) {
+      if (this.state === GameState.TITLE) return;
+      this.migrateHost(peerId);
+    }
+  }
+
+  /**
+   * 房主离开：剩余玩家确定性地选出新房主，其他人重新连接到新房主
+   */
+  private migrateHost(departedHostId: string): void {
+    const newHost = electHost(this.lobbyPlayers, departedHostId);
+    this.removePlayer(departedHostId);
+    this.hostMigrated = true;
+    // 新房主没有远程玩家的动态物理体，本回合剩余时间退回客户端权威
+    this.movementAuthority = "client";
+    this.snapshotBuffers.clear();
+    // 时钟偏移是相对旧房主测得的：先把回合时钟换算回本地时间再重置
+    const offset = this.clockSync.getOffset();
+    if (this.countdownStartedAt !== null) this.countdownStartedAt -= offset;
+    if (this.runStartedAt !== null) this.runStartedAt -= offset;
+    this.clockSync.reset();
+    this.playerPings.clear();
+
+    if (!newHost) {
+      this.setState(GameState.TITLE);
+      return;
+    }
+
+    this.lobbyPlayers.forEach((p) => {
+      p.isHost = p.id === newHost.id;
+    });
+    this.hostId = newHost.id;
+    this.uiManager.addChatMessage(
+      "System",
+      `${newHost.nickname} is the new host`,
+      "#AAAAAA"
+    );
+
+    if (newHost.id === this.networkManager.getMyId()) {
+      this.myPlayerInfo.isHost = true;
+      this.networkManager.setHost(true);
+      setTimeout(() => this.resumeAsHost(), Game.MIGRATION_RESUME_DELAY);
+      setTimeout(
+        () => this.dropUnreconnectedPlayers(),
+        Game.MIGRATION_RECONNECT_TIMEOUT
+      );
+    } else {
+      this.myPlayerInfo.isHost = false;
+      this.networkManager.connectToHost(newHost.id);
+    }
+  }
+
+  /**
+   * 新房主从当前状态继续比赛
+   */
+  private resumeAsHost(): void {
     if (!this.networkManager.isHostUser()) return;
-    if (this.lobbyPlayers.some((p) => p.id === senderId)) return;
+
+    // 让分享出去的房间号继续指向本房间（旧房主的登记可能尚未释放，失败时换一个）
+    void this.openRoom(this.roomCode ?? undefined);
+    this.broadcastLobbyUpdate();
+    this.broadcastMapVotes();
+
+    switch (this.state) {
+      case GameState.PICK:
+      case GameState.BUILD_VIEW:
+      case GameState.BUILD_PLACE:
+        // 自己尚未被确认的放置直接生效
+        if (this.pendingPlacement) {
+          this.networkManager.send({
+            t: PacketType.EVENT_PLACE,
+            p: this.pendingPlacement,
+          });
+          this.confirmLocalPlacement(this.pendingPlacement);
+        }
+        this.checkAllPlayersFinished();
+        break;
+      case GameState.RUN:
+        // 自己的结果在成为房主之前没有记入 ScoreManager
+        if (this.localRunResult) {
+          this.recordRunResult(this.networkManager.getMyId(), this.localRunResult);
+        }
+        if (this.haveAllPlayersFinishedTurn()) {
+          this.setState(GameState.SCORE);
+        }
+        break;
+      case GameState.SCORE:
+        if (this.lastRoundScores) {
+          this.finishScorePhase();
+        } else {
+          this.showRoundScores();
+        }
+        break;
+    }
+  }
+
+  /**
+   * 迁移后超时仍未重连的玩家按离开处理
+   */
+  private dropUnreconnectedPlayers(): void {
+    if (!this.networkManager.isHostUser()) return;
+
+    const connected = new Set(this.networkManager.getPeerIds());
+    this.lobbyPlayers
+      .filter((p) => p.id !== this.networkManager.getMyId() && !connected.has(p.id))
+      .forEach((p) => this.handlePeerDisconnected(p.id));
+  }
+
+  /**
+   * 移除离开的玩家：清理模型和物理体、归还未放置的物品，并重新检查回合是否结束
+   */
+  private removePlayer(playerId: string): void {
+    const nickname = this.getPlayerNickname(playerId);
+
+    // 比赛中离开的玩家重新加入时恢复分数记录
+    const departed = this.lobbyPlayers.find((p) => p.id === playerId);
+    const reconnectToken = this.reconnectTokens.get(playerId);
+    if (departed && reconnectToken && this.isMatchInProgress()) {
+      this.departedPlayerIds.set(reconnectToken, playerId);
+    }
+    this.reconnectTokens.delete(playerId);
+
+    this.lobbyPlayers = this.lobbyPlayers.filter((p) => p.id !== playerId);
+    delete this.mapVotes[playerId];
+    this.playersFinishedTurn.delete(playerId);
+    this.snapshotBuffers.delete(playerId);
+    this.lastSnapshotSeqs.delete(playerId);
+    this.remoteInputs.delete(playerId);
+    this.remoteInputQueues.delete(playerId);
+    this.runResultHints.delete(playerId);
+    this.playerFeatures.delete(playerId);
+    this.playerPings.delete(playerId);
+    this.rateLimiter.removeSender(playerId);
+
+    const player = this.players.get(playerId);
+    if (player) {
+      this.scene.remove(player.rig.root);
+      this.physicsWorld.world.removeBody(player.body);
+      this.players.delete(playerId);
+    }
+
+    const pickedIndex = this.pickedItems.get(playerId);
+    if (pickedIndex !== undefined) {
+      this.pickedItems.delete(playerId);
+      this.partyBoxManager.returnItem(pickedIndex);
+    }
+
+    this.uiManager.addChatMessage("System", `${nickname} left the game`, "#AAAAAA");
+
+    if (this.state === GameState.LOBBY) {
+      this.refreshLobbyUI();
+    } else if (this.state === GameState.RUN) {
+      if (this.networkManager.isHostUser() && this.haveAllPlayersFinishedTurn()) {
+        this.setState(GameState.SCORE);
+      }
+    } else {
+      this.checkAllPlayersFinished();
+    }
+  }
+
+  private handlePingPacket(packet: Packet<PacketType.PING>, senderId: string): void {
+    this.networkManager.send(
+      {
+        t: PacketType.PONG,
+        p: { sentAt: packet.p.sentAt, hostTime: Date.now() },
+      },
+      senderId
+    );
+    if (packet.p.rtt !== undefined) {
+      this.playerPings.set(senderId, packet.p.rtt);
+    }
+  }
+
+  /**
+   * 房主广播的状态起始时间：目前用于对齐各端的倒计时
+   */
+  private handleEventStatePacket(packet: Packet<PacketType.EVENT_STATE>): void {
+    if (packet.p.state !== GameState.COUNTDOWN || packet.p.at === undefined) return;
+    // 可能先于最后一个 EVENT_PLACE 到达，进入倒计时时再使用
+    this.countdownStartedAt = packet.p.at;
+  }
+
+  /**
+   * 定时测量延迟：客户端向房主发送 PING，房主汇总并广播所有玩家的延迟
+   */
+  private updatePing(): void {
+    if (this.state === GameState.TITLE) return;
+
+    const now = Date.now();
+    const isHost = this.networkManager.isHostUser();
+    const interval = isHost ? Game.PING_BROADCAST_INTERVAL : Game.PING_INTERVAL;
+    if (now - this.lastPingSentAt < interval) return;
+    this.lastPingSentAt = now;
+
+    if (isHost) {
+      this.networkManager.send({
+        t: PacketType.PLAYER_PINGS,
+        p: { pings: Object.fromEntries(this.playerPings) },
+      });
+      this.refreshLobbyPlayerList();
+    } else if (this.hostId) {
+      const ping: PingPayload = { sentAt: now };
+      const rtt = this.clockSync.getRtt();
+      if (rtt !== null) {
+        ping.rtt = rtt;
+      }
+      this.networkManager.send({ t: PacketType.PING, p: ping }, this.hostId);
+    }
+
+    if (this.state === GameState.RUN || this.state === GameState.COUNTDOWN) {
+      this.uiManager.showNetworkIndicator(isHost ? null : this.clockSync.getRtt() ?? 0);
+    } else {
+      this.uiManager.hideNetworkIndicator();
+    }
+  }
+
+  private refreshLobbyPlayerList(): void {
+    if (this.state !== GameState.LOBBY) return;
+
+    const pings = Object.fromEntries(this.playerPings);
+    // 自己的延迟用本地测量值，比房主广播的更新
+    const myRtt = this.clockSync.getRtt();
+    if (!this.networkManager.isHostUser() && myRtt !== null) {
+      pings[this.networkManager.getMyId()] = myRtt;
+    }
+    this.uiManager.updateLobbyPlayerList(
+      this.networkManager.getMyId(),
+      this.lobbyPlayers,
+      pings,
+      () => this.toggleLocalSpectator(),
+      this.networkManager.isHostUser()
+        ? {
+            locked: this.lobbyLocked,
+            maxPlayers: this.maxPlayers,
+            maxPlayersLimit: Game.PLAYER_COLORS.length,
+            onKick: (playerId) => this.kickPlayer(playerId, "You were kicked by the host."),
+            onBan: (playerId) => {
+              const player = this.lobbyPlayers.find((p) => p.id === playerId);
+              if (player && window.confirm(`Ban ${player.nickname}?`)) {
+                this.banPlayer(playerId);
+              }
+            },
+            onToggleLock: () => {
+              this.lobbyLocked = !this.lobbyLocked;
+              this.refreshLobbyPlayerList();
+            },
+            onMaxPlayersChange: (maxPlayers) => {
+              this.maxPlayers = Math.max(
+                2,
+                Math.min(maxPlayers, Game.PLAYER_COLORS.length)
+              );
+              this.refreshLobbyPlayerList();
+            },
+          }
+        : undefined
+    );
+  }
+
+  private handleJoinPacket(packet: Packet<PacketType.JOIN>, senderId: string): void {
+    if (!this.networkManager.isHostUser()) return;
+
+    // 比赛进行中加入必须支持本场已启用的功能和状态同步
+    const inMatch = this.isMatchInProgress();
+    const handshake = negotiateJoin(
+      packet.p,
+      SUPPORTED_FEATURES,
+      inMatch ? [...this.sessionFeatures, "resync"] : []
+    );
+    if (!handshake.ok) {
+      this.rejectJoin(senderId, handshake.reason);
+      return;
+    }
+    this.playerFeatures.set(senderId, handshake.features);
+    // 房主迁移后重新连接的玩家也会再次发送，新房主由此得知令牌
+    if (packet.p.reconnectToken) {
+      this.reconnectTokens.set(senderId, packet.p.reconnectToken);
+    }
+
+    if (this.lobbyPlayers.some((p) => p.id === senderId)) {
+      // 房主迁移后已有玩家重新连接：同步最新的大厅信息
+      this.networkManager.send(
+        { t: PacketType.LOBBY_UPDATE, p: this.lobbyPlayers },
+        senderId
+      );
+      return;
+    }
+
+    const refusal = this.checkJoinAllowed(senderId, packet.p);
+    if (refusal) {
+      this.rejectJoin(senderId, refusal);
+      return;
+    }
 
     const newPlayer: PlayerInfo = {
       id: senderId,
-      nickname: packet.p.nickname,
+      nickname: sanitizeNickname(packet.p.nickname) || "Player",
       character: "",
       isHost: false,
       isReady: false,
     };
+    if (packet.p.spectator) {
+      newPlayer.spectator = true;
+    }
+
+    // 比赛进行中：分配空闲角色，本回合观战，下一回合开始参与
+    if (inMatch && !newPlayer.spectator) {
+      newPlayer.character = this.findFreeCharacter();
+      newPlayer.joinsNextRound = true;
+      const reconnectToken = packet.p.reconnectToken;
+      const previousId = reconnectToken && this.departedPlayerIds.get(reconnectToken);
+      if (reconnectToken && previousId) {
+        this.scoreManager
+          .getLedger()
+          .transferPlayer(previousId, newPlayer.id, newPlayer.nickname);
+        this.departedPlayerIds.delete(reconnectToken);
+      }
+    }
     this.lobbyPlayers.push(newPlayer);
 
     this.networkManager.send(
@@ -589,15 +1254,311 @@ export class Game {
           players: this.lobbyPlayers,
           state: this.state,
           mapVotes: this.mapVotes,
+          version: PROTOCOL_VERSION,
+          features: inMatch ? this.sessionFeatures : handshake.features,
+          ...(this.roomCode ? { roomCode: this.roomCode } : {}),
         },
       },
       senderId
     );
 
+    if (inMatch) {
+      this.networkManager.send(
+        { t: PacketType.RESYNC, p: this.buildResyncPayload() },
+        senderId
+      );
+      this.spawnLatePlayer(newPlayer);
+      this.uiManager.addChatMessage(
+        "System",
+        newPlayer.spectator
+          ? `${newPlayer.nickname} joined as a spectator`
+          : `${newPlayer.nickname} joined and will play next round`,
+        "#AAAAAA"
+      );
+    }
+
     this.broadcastLobbyUpdate();
   }
 
-  private handleWelcomePacket(packet: Packet): void {
+  /**
+   * 房主检查封禁、锁定和人数上限，返回拒绝原因，允许时返回 null
+   */
+  private checkJoinAllowed(peerId: string, join: JoinPayload): string | null {
+    if (
+      this.bannedIds.has(peerId) ||
+      this.bannedNicknames.has(nicknameKey(join.nickname))
+    ) {
+      return "You are banned from this lobby.";
+    }
+    if (this.lobbyLocked) {
+      return "The lobby is locked.";
+    }
+    if (!join.spectator && this.countPlayers() >= this.maxPlayers) {
+      return `The lobby is full (${this.maxPlayers} players).`;
+    }
+    return null;
+  }
+
+  /**
+   * 占用名额的玩家数（观战者不计）
+   */
+  private countPlayers(): number {
+    return this.lobbyPlayers.filter((p) => !p.spectator).length;
+  }
+
+  /**
+   * 房主踢出玩家：对方回到标题画面并看到原因，稍后断开（断开时按正常离开处理）
+   */
+  private kickPlayer(playerId: string, reason: string): void {
+    if (!this.networkManager.isHostUser()) return;
+    if (playerId === this.networkManager.getMyId()) return;
+
+    this.networkManager.send({ t: PacketType.KICKED, p: { reason } }, playerId);
+    setTimeout(() => {
+      this.networkManager.disconnect(playerId);
+    }, Game.REJECT_DISCONNECT_DELAY);
+  }
+
+  private banPlayer(playerId: string): void {
+    const player = this.lobbyPlayers.find((p) => p.id === playerId);
+    if (!player) return;
+
+    this.bannedIds.add(playerId);
+    this.bannedNicknames.add(nicknameKey(player.nickname));
+    this.kickPlayer(playerId, "You were banned by the host.");
+  }
+
+  /**
+   * 拒绝加入：先告知原因，稍后断开连接（立即断开可能丢失该数据包）
+   */
+  private rejectJoin(peerId: string, reason: string): void {
+    this.reconnectTokens.delete(peerId);
+    this.networkManager.send(
+      { t: PacketType.JOIN_REJECTED, p: { reason } },
+      peerId
+    );
+    setTimeout(() => {
+      if (!this.lobbyPlayers.some((p) => p.id === peerId)) {
+        this.networkManager.disconnect(peerId);
+      }
+    }, Game.REJECT_DISCONNECT_DELAY);
+  }
+
+  /**
+   * 客户端离开房主并回到标题画面，显示原因
+   */
+  private leaveHost(reason: string): void {
+    const hostId = this.hostId;
+    // 先清空 hostId，断开连接时不触发房主迁移
+    this.hostId = "";
+    this.networkManager.disconnect(hostId);
+    this.setState(GameState.TITLE);
+    this.showTitleScreen(reason);
+  }
+
+  private isMatchInProgress(): boolean {
+    return this.state !== GameState.TITLE && this.state !== GameState.LOBBY;
+  }
+
+  private findFreeCharacter(): string {
+    const taken = new Set(this.lobbyPlayers.map((p) => p.character));
+    const free = listCharacterAppearances().find((a) => !taken.has(a.id));
+    return free?.id || "chicken";
+  }
+
+  /**
+   * 房主收集中途加入玩家所需的完整比赛状态
+   */
+  private buildResyncPayload(): ResyncPayload {
+    const payload: ResyncPayload = {
+      mapId: this.selectedMapId,
+      placedItems: this.placedItemRounds,
+      scores: this.scoreManager.getLedger().serialize(),
+      round: this.partyBoxManager.getCurrentRound(),
+      state: this.state,
+      finishedTurn: Array.from(this.playersFinishedTurn),
+    };
+    if (this.countdownStartedAt !== null) {
+      payload.countdownStartedAt = this.countdownStartedAt;
+    }
+    payload.seed = this.matchSeed;
+    payload.rules = this.matchRules;
+    return payload;
+  }
+
+  /**
+   * 为比赛中途加入的玩家生成模型（本回合隐藏）
+   */
+  private spawnLatePlayer(info: PlayerInfo): void {
+    if (this.players.has(info.id) || info.id === this.networkManager.getMyId()) {
+      return;
+    }
+
+    const usedColors = new Set(this.playerColorMap.values());
+    const color =
+      Game.PLAYER_COLORS.find((c) => !usedColors.has(c)) ||
+      Game.PLAYER_COLORS[this.playerColorMap.size % Game.PLAYER_COLORS.length];
+    this.playerColorMap.set(info.id, color);
+
+    this.spawnRemotePlayer(info);
+    this.applySpectatorState();
+  }
+
+  /**
+   * 中途加入：加载地图、重建已放置的物品并同步分数与回合，然后以观战身份进入当前阶段
+   */
+  private async handleResyncPacket(packet: Packet<PacketType.RESYNC>): Promise<void> {
+    const resync = packet.p;
+
+    this.uiManager.clearUI();
+    this.selectedMapId = resync.mapId;
+    await this.levelManager.loadMap(resync.mapId);
+    this.levelManager.setMapVisible(true);
+
+    // 按回合重放放置记录；已经进入倒计时的回合需要同样引爆炸弹
+    const bombsDetonated =
+      resync.state === GameState.COUNTDOWN ||
+      resync.state === GameState.RUN ||
+      resync.state === GameState.SCORE;
+    this.levelManager.clearPlacedObjects();
+    this.buildSystem.clearAllTools();
+    this.placedItemRounds = [];
+    resync.placedItems.forEach((round, index) => {
+      this.placedItemRounds.push([]);
+      round.forEach((placement) => this.placeItem(placement));
+      if (index < resync.placedItems.length - 1 || bombsDetonated) {
+        this.levelManager.explodeBombs();
+      }
+    });
+
+    this.scoreManager.getLedger().load(resync.scores);
+    this.partyBoxManager.setRoundCount(resync.round);
+    if (resync.seed !== undefined) {
+      this.matchSeed = resync.seed;
+    }
+    if (resync.rules) {
+      this.applyMatchRules(normalizeMatchRules(resync.rules));
+    }
+    this.networkManager.recorder.setMapId(resync.mapId);
+    // 回合时钟需要和房主一致（此时可能还没有 PING 样本，之后自动校正）
+    this.countdownStartedAt = resync.countdownStartedAt ?? null;
+
+    this.initPlayerColors();
+    const me = this.lobbyPlayers.find(
+      (p) => p.id === this.networkManager.getMyId()
+    );
+    if (me) {
+      this.myPlayerInfo.character = me.character;
+      this.updateLocalPlayerModel(me.character);
+    }
+    const localPlayer = this.players.get("local");
+    if (localPlayer) {
+      localPlayer.rig.setNameLabel(
+        this.myPlayerInfo.nickname,
+        this.getPlayerColor(this.networkManager.getMyId())
+      );
+      localPlayer.rig.root.visible = false;
+    }
+    this.lobbyPlayers.forEach((p) => {
+      if (p.id !== this.networkManager.getMyId() && !this.players.has(p.id)) {
+        this.spawnRemotePlayer(p);
+      }
+    });
+
+    switch (resync.state) {
+      case GameState.PICK:
+      case GameState.BUILD_VIEW:
+      case GameState.BUILD_PLACE:
+        this.setState(GameState.BUILD_VIEW);
+        break;
+      case GameState.COUNTDOWN:
+      case GameState.RUN:
+        this.setState(GameState.RUN);
+        this.cameraController.setPosition(0, 12, -8);
+        this.cameraController.lookAt(0, 0, 12);
+        break;
+      default:
+        this.setState(GameState.SCORE);
+        break;
+    }
+
+    this.playersFinishedTurn = new Set(resync.finishedTurn);
+    this.applySpectatorState();
+    if (!this.replay) {
+      this.uiManager.showMessage(
+        me?.spectator
+          ? "Match in progress - you are spectating"
+          : "Match in progress - you will join next round"
+      );
+    }
+  }
+
+  /**
+   * 是否参与本回合：观战者和中途加入、等待下一回合的玩家不参与
+   */
+  private isParticipant(info: PlayerInfo): boolean {
+    return !info.spectator && !info.joinsNextRound;
+  }
+
+  /**
+   * 本地玩家本回合是否只观战（回放时始终只读观战）
+   */
+  private isLocalSpectating(): boolean {
+    if (this.replay) return true;
+    const me = this.lobbyPlayers.find(
+      (p) => p.id === this.networkManager.getMyId()
+    );
+    return !!me && !this.isParticipant(me);
+  }
+
+  /**
+   * 观战者不显示模型，物理体移出世界（不挡路、不触发陷阱）；重新参与时加回
+   */
+  private applySpectatorState(): void {
+    const myId = this.networkManager.getMyId();
+    const world = this.physicsWorld.world;
+    this.lobbyPlayers.forEach((info) => {
+      const player = this.players.get(info.id === myId ? "local" : info.id);
+      if (!player) return;
+
+      if (this.isParticipant(info)) {
+        if (!world.bodies.includes(player.body)) {
+          world.addBody(player.body);
+        }
+      } else {
+        player.rig.root.visible = false;
+        world.removeBody(player.body);
+      }
+    });
+
+    // 回放观看者不在玩家列表中
+    const localPlayer = this.players.get("local");
+    if (this.replay && localPlayer) {
+      localPlayer.rig.root.visible = false;
+      world.removeBody(localPlayer.body);
+    }
+  }
+
+  /**
+   * 本地玩家本回合是否已结束（到达终点、死亡或只观战）
+   */
+  private isLocalTurnOver(): boolean {
+    return (
+      this.playersFinishedTurn.has(this.networkManager.getMyId()) ||
+      this.isLocalSpectating()
+    );
+  }
+
+  private handleWelcomePacket(packet: Packet<PacketType.WELCOME>): void {
+    if (packet.p.version !== PROTOCOL_VERSION) {
+      this.leaveHost(
+        `Version mismatch: host runs protocol v${packet.p.version ?? 1}, you run v${PROTOCOL_VERSION}.`
+      );
+      return;
+    }
+    this.sessionFeatures = intersectFeatures(packet.p.features || []);
+    this.roomCode = packet.p.roomCode ?? null;
+
     this.lobbyPlayers = packet.p.players;
     this.myPlayerInfo.id = this.networkManager.getMyId();
     
@@ -613,11 +1574,21 @@ export class Game {
       this.updateLocalPlayerModel(myProfile.character);
     }
 
+    // 比赛进行中加入时等待 RESYNC 再进入游戏
+    if (packet.p.state !== GameState.LOBBY) {
+      this.beginRecording();
+      return;
+    }
+
     this.setState(GameState.LOBBY);
   }
 
-  private handleLobbyUpdatePacket(packet: Packet): void {
+  private handleLobbyUpdatePacket(packet: Packet<PacketType.LOBBY_UPDATE>): void {
     this.lobbyPlayers = packet.p;
+    if (this.isMatchInProgress()) {
+      this.lobbyPlayers.forEach((p) => this.spawnLatePlayer(p));
+    }
+
     const me = this.lobbyPlayers.find(
       (p) => p.id === this.networkManager.getMyId()
     );
@@ -627,7 +1598,7 @@ export class Game {
     this.refreshLobbyUI();
   }
 
-  private handleCharacterSelectPacket(packet: Packet, senderId: string): void {
+  private handleCharacterSelectPacket(packet: Packet<PacketType.CHARACTER_SELECT>, senderId: string): void {
     if (!this.networkManager.isHostUser()) return;
 
     const requestedChar = packet.p.charId;
@@ -645,45 +1616,115 @@ export class Game {
     }
   }
 
-  private handleNicknameChangePacket(packet: Packet, senderId: string): void {
+  /**
+   * 房主切换玩家的观战状态（只在大厅中生效），观战者让出所选角色
+   */
+  private setSpectator(playerId: string, spectator: boolean): void {
+    if (this.state !== GameState.LOBBY) return;
+    const player = this.lobbyPlayers.find((p) => p.id === playerId);
+    if (!player) return;
+
+    if (spectator) {
+      player.spectator = true;
+      player.character = "";
+    } else if (player.spectator) {
+      if (this.countPlayers() >= this.maxPlayers) {
+        this.uiManager.addChatMessage(
+          "System",
+          `${player.nickname} cannot play: the lobby is full`,
+          "#AAAAAA"
+        );
+        return;
+      }
+      delete player.spectator;
+    }
+    if (playerId === this.myPlayerInfo.id) {
+      this.myPlayerInfo.character = player.character;
+    }
+    this.broadcastLobbyUpdate();
+  }
+
+  private toggleLocalSpectator(): void {
+    const me = this.lobbyPlayers.find(
+      (p) => p.id === this.networkManager.getMyId()
+    );
+    if (!me) return;
+
+    if (this.networkManager.isHostUser()) {
+      this.setSpectator(me.id, !me.spectator);
+    } else {
+      this.networkManager.send({
+        t: PacketType.SPECTATE,
+        p: { spectator: !me.spectator },
+      });
+    }
+  }
+
+  private handleNicknameChangePacket(packet: Packet<PacketType.NICKNAME_CHANGE>, senderId: string): void {
     if (!this.networkManager.isHostUser()) return;
 
-    const newNickname = packet.p.nickname;
+    if (!this.rateLimiter.allow(senderId, "nickname")) return;
+
+    const newNickname = sanitizeNickname(packet.p.nickname);
     const sender = this.lobbyPlayers.find((pl) => pl.id === senderId);
 
-    if (sender && newNickname && newNickname.trim()) {
-      sender.nickname = newNickname.trim();
+    if (sender && newNickname) {
+      sender.nickname = newNickname;
       this.broadcastLobbyUpdate();
     }
   }
 
+  /**
+   * 房主转发聊天：限流、清理内容，并用发送者在大厅中的昵称和 ID 覆盖载荷（防止冒充）
+   */
+  private handleChatRequest(packet: Packet<PacketType.CHAT>, senderId: string): void {
+    if (!this.rateLimiter.allow(senderId, "chat")) return;
+
+    const message = sanitizeChatMessage(packet.p.message);
+    if (!message) return;
+
+    const chatPayload: ChatPayload = {
+      nickname: this.getPlayerNickname(senderId),
+      message,
+      playerId: senderId,
+    };
+    this.uiManager.addChatMessage(
+      chatPayload.nickname,
+      chatPayload.message,
+      this.getPlayerColor(senderId)
+    );
+    this.networkManager.send({ t: PacketType.CHAT, p: chatPayload });
+  }
+
   // ========== Map Selection Handling ==========
 
-  private handleMapSelectPacket(packet: Packet, senderId: string): void {
+  private handleMapSelectPacket(packet: Packet<PacketType.MAP_SELECT>, senderId: string): void {
     if (!this.networkManager.isHostUser()) return;
 
-    const payload = packet.p as MapSelectPayload;
+    if (!this.rateLimiter.allow(senderId, "mapVote")) return;
+
+    const payload = packet.p;
     this.mapVotes[senderId] = payload.mapId;
     
     // 广播所有投票
     this.broadcastMapVotes();
   }
 
-  private handleMapVotesPacket(packet: Packet): void {
-    const payload = packet.p as MapVotesPayload;
+  private handleMapVotesPacket(packet: Packet<PacketType.MAP_VOTES>): void {
+    const payload = packet.p;
     this.mapVotes = payload.votes;
     this.uiManager.updateMapVotes(this.mapVotes);
   }
 
-  private handleMapChosenPacket(packet: Packet): void {
-    const payload = packet.p as MapChosenPayload;
+  private handleMapChosenPacket(packet: Packet<PacketType.MAP_CHOSEN>): void {
+    const payload = packet.p;
     this.selectedMapId = payload.mapId;
   }
 
   private broadcastMapVotes(): void {
     this.networkManager.send({
       t: PacketType.MAP_VOTES,
-      p: { votes: this.mapVotes } as MapVotesPayload,
+      p: { votes: this.mapVotes },
     });
     this.uiManager.updateMapVotes(this.mapVotes);
   }
@@ -697,65 +1738,273 @@ export class Game {
     } else {
       this.networkManager.send({
         t: PacketType.MAP_SELECT,
-        p: { playerId: this.networkManager.getMyId(), mapId } as MapSelectPayload,
+        p: { playerId: this.networkManager.getMyId(), mapId },
       });
     }
   }
 
-  private handleEventPlacePacket(packet: Packet, _senderId: string): void {
-    if (packet.p.playerId === this.networkManager.getMyId()) return;
-
-    const placedObject = this.buildSystem.placeObject(
-      packet.p.itemId,
-      new THREE.Vector3(packet.p.pos.x, packet.p.pos.y, packet.p.pos.z),
-      packet.p.rot || 0
-    );
-
-    // 只有十字弓需要附加音频
-    if (placedObject && placedObject instanceof Crossbow) {
-      this.attachCrossbowAudio(placedObject);
+  private handleEventPlacePacket(packet: Packet<PacketType.EVENT_PLACE>, senderId: string): void {
+    if (this.networkManager.isHostUser()) {
+      const reason = this.validatePlacement(packet.p, senderId);
+      if (reason) {
+        this.networkManager.send(
+          { t: PacketType.PLACE_REJECTED, p: { reason } },
+          senderId
+        );
+        return;
+      }
+      // 先转发（发送者据此确认），再进入倒计时等后续状态
+      this.networkManager.send(packet);
+    } else if (packet.p.playerId === this.networkManager.getMyId()) {
+      if (this.pendingPlacement) {
+        this.confirmLocalPlacement(packet.p);
+      }
+      return;
     }
 
+    this.placeItem(packet.p);
+
     this.playersFinishedTurn.add(packet.p.playerId);
+    this.pickedItems.delete(packet.p.playerId);
     this.checkAllPlayersFinished();
+  }
+
+  private handlePlaceRejected(packet: Packet<PacketType.PLACE_REJECTED>): void {
+    this.pendingPlacement = null;
+    this.audio.playSfx(AudioIds.BuildInvalid);
+    this.uiManager.showMessage(packet.p.reason);
+  }
+
+  private handlePlayerFinishedRun(packet: Packet<PacketType.PLAYER_FINISHED_RUN>, senderId: string): void {
+    if (!this.networkManager.isHostUser()) return;
+    if (senderId === this.networkManager.getMyId()) return;
+    // 重复的上报（例如迁移后重发）不再计分
+    if (this.playersFinishedTurn.has(senderId)) return;
+    const sender = this.lobbyPlayers.find((p) => p.id === senderId);
+    if (!sender || !this.isParticipant(sender)) return;
+
+    // 房主权威模式下由房主自己的模拟判定结果（见 detectAuthoritativeRunResults），
+    // 客户端上报只是提示：此时房主的模拟通常还落后一个往返
+    if (this.isHostAuthoritative()) {
+      if (!this.runResultHints.has(senderId)) {
+        this.runResultHints.set(senderId, Date.now());
+      }
+      return;
+    }
+
+    this.finishRemoteRun(senderId, packet.p);
+  }
+
+  /**
+   * 房主权威模式：房主的模拟检测到远程玩家死亡或到达终点时记录结果
+   * 客户端已上报结束但模拟在宽限时间内仍未检测到时，按未到达终点且无击杀者处理
+   */
+  private detectAuthoritativeRunResults(): void {
+    const now = Date.now();
+    this.players.forEach((player, id) => {
+      if (id === "local" || this.playersFinishedTurn.has(id)) return;
+      const info = this.lobbyPlayers.find((p) => p.id === id);
+      if (!info || !this.isParticipant(info)) return;
+
+      if (player.checkDeath() || player.hasWon) {
+        this.finishRemoteRun(id, { won: player.hasWon, killedBy: player.lastHitBy });
+        return;
+      }
+
+      const hintedAt = this.runResultHints.get(id);
+      if (hintedAt !== undefined && now - hintedAt > Game.RUN_RESULT_HINT_GRACE) {
+        this.finishRemoteRun(id, { won: false, killedBy: null });
+      }
+    });
+  }
 
+  private finishRemoteRun(playerId: string, result: PlayerFinishedRunPayload): void {
+    this.playersFinishedTurn.add(playerId);
+    this.runResultHints.delete(playerId);
+    this.recordRunResult(playerId, result);
+
+    if (this.haveAllPlayersFinishedTurn()) {
+      this.setState(GameState.SCORE);
+    }
+  }
+
+  private handleInputPacket(packet: Packet<PacketType.INPUT>, senderId: string): void {
+    if (!this.networkManager.isHostUser() || !this.isHostAuthoritative()) return;
+    if (!this.players.has(senderId)) return;
+
+    let queue = this.remoteInputQueues.get(senderId);
+    if (!queue) {
+      queue = [];
+      this.remoteInputQueues.set(senderId, queue);
+    }
+
+    // 每批都会重发未确认的输入：只追加比已收到的更新的（序号为 16 位回绕）
+    let latest =
+      queue.length > 0 ? queue[queue.length - 1].seq : this.remoteInputs.get(senderId)?.seq;
+    for (const input of packet.p.inputs) {
+      if (latest !== undefined) {
+        const diff = (input.seq - latest) & 0xffff;
+        if (diff === 0 || diff > 0x8000) continue;
+      }
+      queue.push(input);
+      latest = input.seq;
+    }
+
+    if (queue.length > Game.MAX_QUEUED_INPUTS) {
+      queue.splice(0, queue.length - Game.MAX_QUEUED_INPUTS);
+    }
+  }
+
+  private receiveSnapshot(
+    packet: Packet<PacketType.SNAPSHOT | PacketType.SNAPSHOT_BINARY>,
+    snapshot: SnapshotPayload,
+    senderId: string
+  ): void {
     if (this.networkManager.isHostUser()) {
+      // 房主权威模式下位置只由房主产生，忽略客户端上报的快照
+      if (this.isHostAuthoritative()) return;
+      // 客户端只能上报自己的位置
+      if (snapshot.id !== senderId) return;
+      this.handleSnapshot(snapshot, packet.Ts);
       this.networkManager.send(packet);
+    } else {
+      this.handleSnapshot(snapshot, packet.Ts);
     }
   }
 
-  private handlePlayerFinishedRun(packet: Packet, senderId: string): void {
-    if (!this.networkManager.isHostUser()) return;
-    if (senderId === this.networkManager.getMyId()) return;
+  private recordRunResult(playerId: string, result: PlayerFinishedRunPayload): void {
+    if (result.won) {
+      this.scoreManager.recordFinish(playerId);
+    }
+
+    if (result.killedBy && result.killedBy !== playerId) {
+      this.scoreManager.recordTrapKill(result.killedBy);
+    }
+  }
+
+  private handleSnapshot(data: SnapshotPayload, timestamp?: number): void {
+    if (data.id === this.networkManager.getMyId()) {
+      if (this.isHostAuthoritative() && data.ack !== undefined) {
+        this.reconcileLocalPlayer(data.ack, data.pos);
+      }
+      return;
+    }
+    if (data.seq !== undefined && this.isStaleSnapshot(data.id, data.seq)) {
+      return;
+    }
+    if (!this.players.has(data.id)) return;
+
+    let buffer = this.snapshotBuffers.get(data.id);
+    if (!buffer) {
+      buffer = new SnapshotBuffer(
+        this.networkConfig.interpolationDelay,
+        this.networkConfig.maxExtrapolation
+      );
+      this.snapshotBuffers.set(data.id, buffer);
+    }
+    buffer.push(data, timestamp, Date.now());
+  }
+
+  private isHostAuthoritative(): boolean {
+    return this.movementAuthority === "host";
+  }
+
+  /**
+   * 按房主确认的位置修正本地预测
+   */
+  private reconcileLocalPlayer(ack: number, pos: number[]): void {
+    const localPlayer = this.players.get("local");
+    if (!localPlayer || localPlayer.isDead || localPlayer.hasWon) return;
+    if (this.playersFinishedTurn.has(this.networkManager.getMyId())) return;
+
+    const correction = this.clientPrediction.reconcile(
+      ack,
+      new THREE.Vector3(pos[0], pos[1], pos[2])
+    );
+    if (correction) {
+      localPlayer.body.position.x += correction.x;
+      localPlayer.body.position.y += correction.y;
+      localPlayer.body.position.z += correction.z;
+    }
+  }
+
+  /**
+   * 房主权威模式：房主每次物理步进应用每名客户端的下一个输入，与客户端预测时的步进一一对应；
+   * 没有新输入时沿用上一个（快照中的 ack 不变，客户端据此修正）
+   */
+  private updateAuthoritativeRemotePlayers(): void {
+    this.remoteInputQueues.forEach((queue, id) => {
+      const next = queue.shift();
+      if (next) {
+        this.remoteInputs.set(id, next);
+      }
+    });
+
+    this.remoteInputs.forEach((input, id) => {
+      const player = this.players.get(id);
+      if (!player) return;
+
+      player.setInput(
+        { x: input.x, y: input.y, jump: input.j, sprint: !!input.s },
+        input.cam,
+        1 / 60
+      );
+      if (this.state === GameState.COUNTDOWN) {
+        this.clampToSpawnArea(player);
+      }
+    });
+  }
+
+  /**
+   * 用插值缓冲驱动远程玩家的位置、朝向和动画
+   */
+  private updateRemotePlayers(): void {
+    const now = Date.now();
+    this.snapshotBuffers.forEach((buffer, id) => {
+      const player = this.players.get(id);
+      if (!player) return;
 
-    this.playersFinishedTurn.add(senderId);
+      const state = buffer.sample(now);
+      if (!state) return;
 
-    if (packet.p.won) {
-      this.scoreManager.recordFinish(senderId);
-    }
+      player.body.position.set(state.pos.x, state.pos.y, state.pos.z);
+      player.body.quaternion.set(
+        state.rot.x,
+        state.rot.y,
+        state.rot.z,
+        state.rot.w
+      );
 
-    if (packet.p.killedBy && packet.p.killedBy !== senderId) {
-      this.scoreManager.recordTrapKill(packet.p.killedBy);
-    }
+      // 优先使用对方上报的动画状态（包括 dead / win / dance 等一次性状态）
+      if (isCharacterAnimState(state.anim)) {
+        player.setAnimState(state.anim);
+        return;
+      }
 
-    if (this.playersFinishedTurn.size >= this.lobbyPlayers.length) {
-      this.setState(GameState.SCORE);
-    }
+      const horizontalSpeed = Math.hypot(state.velocity.x, state.velocity.z);
+      if (state.velocity.y > 1) {
+        player.setAnimState("jump");
+      } else if (state.velocity.y < -1) {
+        player.setAnimState("fall");
+      } else if (horizontalSpeed > 0.5) {
+        player.setAnimState("run");
+      } else {
+        player.setAnimState("idle");
+      }
+    });
   }
 
-  private handleSnapshot(data: SnapshotPayload): void {
-    if (data.id === this.networkManager.getMyId()) return;
-    const player = this.players.get(data.id);
-    if (player) {
-      player.body.position.set(data.pos[0], data.pos[1], data.pos[2]);
-      player.body.quaternion.set(
-        data.rot[0],
-        data.rot[1],
-        data.rot[2],
-        data.rot[3]
-      );
-      player.rig.updateFromBody(player.body);
+  /**
+   * 丢弃乱序到达的旧快照（序号为 16 位回绕）
+   */
+  private isStaleSnapshot(playerId: string, seq: number): boolean {
+    const last = this.lastSnapshotSeqs.get(playerId);
+    if (last !== undefined) {
+      const diff = (seq - last) & 0xffff;
+      if (diff === 0 || diff > 0x8000) return true;
     }
+    this.lastSnapshotSeqs.set(playerId, seq);
+    return false;
   }
 
   // ========== 游戏逻辑 ==========
@@ -795,6 +2044,7 @@ export class Game {
         this.networkManager.getMyId(),
         this.lobbyPlayers,
         this.networkManager.isHostUser(),
+        this.roomCode,
         (charId) => {
           if (this.networkManager.isHostUser()) {
             const isTaken = this.lobbyPlayers.some(
@@ -817,20 +2067,26 @@ export class Game {
           }
         },
         () => {
-          const allReady = this.lobbyPlayers.every(
-            (p) => p.character && p.character !== ""
-          );
+          // 观战者不需要选角色，但至少要有一名参赛玩家
+          const allReady =
+            this.lobbyPlayers.some((p) => !p.spectator) &&
+            this.lobbyPlayers.every(
+              (p) => p.spectator || (p.character && p.character !== "")
+            );
           if (allReady) {
             // Choose map based on votes
             if (this.networkManager.isHostUser()) {
               this.selectedMapId = MapSelector.chooseMapByVotes(this.mapVotes);
+              this.matchSeed = Math.floor(Math.random() * 0x100000000);
+              this.partyBoxManager.setSeed(this.matchSeed);
+              this.beginRecording();
               // Broadcast chosen map
               this.networkManager.send({
                 t: PacketType.MAP_CHOSEN,
-                p: { mapId: this.selectedMapId } as MapChosenPayload,
+                p: { mapId: this.selectedMapId },
               });
             }
-            this.networkManager.send({ t: PacketType.START_GAME, p: {} });
+            this.broadcastStartGame();
             this.startGame();
           } else {
             this.uiManager.showMessage("All players must select a character!");
@@ -838,6 +2094,8 @@ export class Game {
         },
         (newNickname) => {
           // Handle nickname change
+          newNickname = sanitizeNickname(newNickname);
+          if (!newNickname) return;
           this.myPlayerInfo.nickname = newNickname;
           const me = this.lobbyPlayers.find(
             (p) => p.id === this.myPlayerInfo.id
@@ -861,7 +2119,64 @@ export class Game {
         this.myPlayerInfo.selectedMap
       );
       this.uiManager.updateMapVotes(this.mapVotes);
+      this.refreshLobbyPlayerList();
+      if (this.networkManager.isHostUser()) {
+        this.refreshLobbyRules();
+      }
+    }
+  }
+
+  private refreshLobbyRules(): void {
+    this.uiManager.updateLobbyRules(this.matchRules, (change) => {
+      this.applyMatchRules(normalizeMatchRules({ ...this.matchRules, ...change }));
+      this.refreshLobbyRules();
+    });
+  }
+
+  /**
+   * 应用比赛规则（房主编辑、客户端收到 START_GAME 或 RESYNC 时）
+   */
+  private applyMatchRules(rules: MatchRules): void {
+    this.matchRules = rules;
+    this.scoreManager.setRules(rules);
+    this.partyBoxManager.setRules(rules);
+  }
+
+  private broadcastStartGame(): void {
+    // 中途加入的玩家从这一回合开始参与
+    if (this.lobbyPlayers.some((p) => p.joinsNextRound)) {
+      this.lobbyPlayers.forEach((p) => delete p.joinsNextRound);
+      this.broadcastLobbyUpdate();
+    }
+
+    // 本场比赛只启用所有玩家都支持的功能（迁移后没有记录的玩家沿用之前的结果）
+    const myId = this.networkManager.getMyId();
+    this.sessionFeatures = intersectFeatures(
+      SUPPORTED_FEATURES,
+      ...this.lobbyPlayers
+        .filter((p) => p.id !== myId)
+        .map((p) => this.playerFeatures.get(p.id) ?? this.sessionFeatures)
+    );
+
+    // 迁移后的新房主没有远程玩家的动态物理体，只能使用客户端权威
+    this.movementAuthority =
+      !this.hostMigrated &&
+      this.networkConfig.authority === "host" &&
+      this.sessionFeatures.includes("hostAuthority")
+        ? "host"
+        : "client";
+    const startGame: StartGamePayload = {
+      authority: this.movementAuthority,
+      features: this.sessionFeatures,
+      seed: this.matchSeed,
+      rules: this.matchRules,
+    };
+    const suddenDeath = this.scoreManager.getSuddenDeath();
+    if (suddenDeath) {
+      startGame.suddenDeath = suddenDeath;
+      this.announceSuddenDeath(suddenDeath);
     }
+    this.networkManager.send({ t: PacketType.START_GAME, p: startGame });
   }
 
   private async startGame(): Promise<void> {
@@ -904,13 +2219,19 @@ export class Game {
     const playerColor = this.getPlayerColor(info.id);
     rig.setNameLabel(info.nickname, playerColor);
 
+    // 房主权威模式下房主亲自模拟远程玩家，需要动态物理体
+    const simulated =
+      this.networkManager.isHostUser() && this.isHostAuthoritative();
     const playerBody = BodyFactory.createPlayerBody(
       0.4,
       1.2,
-      0,
-      new CANNON.Vec3(0, 5, 0)
+      simulated ? 1 : 0,
+      new CANNON.Vec3(0, 5, 0),
+      simulated ? this.physicsWorld.playerMaterial : undefined
     );
-    playerBody.type = CANNON.Body.KINEMATIC;
+    if (!simulated) {
+      playerBody.type = CANNON.Body.KINEMATIC;
+    }
     playerBody.collisionFilterGroup = 2;
     playerBody.collisionFilterMask = 1;
     (playerBody as any).userData = { tag: "player" };
@@ -922,11 +2243,77 @@ export class Game {
   }
 
   private checkAllPlayersFinished(): void {
-    if (this.playersFinishedTurn.size >= this.lobbyPlayers.length) {
+    const isBuildPhase =
+      this.state === GameState.PICK ||
+      this.state === GameState.BUILD_VIEW ||
+      this.state === GameState.BUILD_PLACE;
+    if (isBuildPhase && this.haveAllPlayersFinishedTurn()) {
       this.setState(GameState.COUNTDOWN);
     }
   }
 
+  /**
+   * 放置时限：显示剩余时间，房主在时间到时让未放置的玩家放弃本回合
+   */
+  private updateBuildTimer(): void {
+    const isBuildPhase =
+      this.state === GameState.PICK ||
+      this.state === GameState.BUILD_VIEW ||
+      this.state === GameState.BUILD_PLACE;
+    if (
+      !isBuildPhase ||
+      this.buildPhaseStartedAt === null ||
+      this.matchRules.buildTimeLimit <= 0
+    ) {
+      this.uiManager.showBuildTimer(null);
+      return;
+    }
+
+    const remaining =
+      this.matchRules.buildTimeLimit - (Date.now() - this.buildPhaseStartedAt) / 1000;
+    this.uiManager.showBuildTimer(Math.max(0, remaining));
+    if (remaining > 0 || !this.networkManager.isHostUser()) return;
+
+    this.buildPhaseStartedAt = null;
+    const playerIds = this.lobbyPlayers
+      .filter((p) => this.isParticipant(p) && !this.playersFinishedTurn.has(p.id))
+      .map((p) => p.id);
+    if (playerIds.length === 0) return;
+
+    this.networkManager.send({ t: PacketType.TURN_FORFEIT, p: { playerIds } });
+    this.forfeitTurns(playerIds);
+  }
+
+  /**
+   * 未在时限内放置的玩家放弃本回合：归还已选的物品，视为已完成
+   */
+  private forfeitTurns(playerIds: string[]): void {
+    playerIds.forEach((playerId) => {
+      const pickedIndex = this.pickedItems.get(playerId);
+      if (pickedIndex !== undefined) {
+        this.pickedItems.delete(playerId);
+        this.partyBoxManager.returnItem(pickedIndex);
+      }
+      this.playersFinishedTurn.add(playerId);
+    });
+
+    if (playerIds.includes(this.networkManager.getMyId())) {
+      this.pendingPlacement = null;
+      this.buildSystem.selectedItem = null;
+      this.uiManager.showMessage("Time's up!");
+    }
+    this.checkAllPlayersFinished();
+  }
+
+  /**
+   * 大厅中的每个玩家是否都已完成本阶段（只统计仍在线的玩家）
+   */
+  private haveAllPlayersFinishedTurn(): boolean {
+    return this.lobbyPlayers.every(
+      (p) => !this.isParticipant(p) || this.playersFinishedTurn.has(p.id)
+    );
+  }
+
   private resetPlayers(): void {
     const playerCount = this.players.size;
     if (playerCount === 0) return;
@@ -961,6 +2348,13 @@ export class Game {
     return this.playerColorMap.get(playerId) || "#FFFFFF";
   }
 
+  /**
+   * 分数画面中的玩家颜色：已离开的玩家不在颜色表中，显示为灰色
+   */
+  private getScorePlayerColor(playerId: string): string {
+    return this.playerColorMap.get(playerId) ?? "#999999";
+  }
+
   /**
    * 根据玩家 ID 获取昵称
    */
@@ -973,6 +2367,11 @@ export class Game {
   }
 
   private processPickRequest(index: number, senderId: string): void {
+    const sender = this.lobbyPlayers.find((p) => p.id === senderId);
+    if (!sender || !this.isParticipant(sender)) return;
+    // 每名玩家每回合只能选一个物品
+    if (this.pickedItems.has(senderId) || this.playersFinishedTurn.has(senderId)) return;
+
     if (this.partyBoxManager.isItemAvailable(index)) {
       this.partyBoxManager.markItemPicked(index);
 
@@ -987,6 +2386,7 @@ export class Game {
 
   private handleItemPicked(index: number, playerId: string): void {
     this.partyBoxManager.markItemPicked(index);
+    this.pickedItems.set(playerId, index);
 
     if (playerId === this.networkManager.getMyId()) {
       const itemId = this.partyBoxManager.getItemId(index);
@@ -998,7 +2398,9 @@ export class Game {
   }
 
   private generatePartyBoxItems(): void {
-    const items = this.partyBoxManager.generateItems(this.lobbyPlayers.length);
+    const items = this.partyBoxManager.generateItems(
+      this.lobbyPlayers.filter((p) => this.isParticipant(p)).length
+    );
     this.partyBoxManager.spawnItems(items);
 
     this.networkManager.send({
@@ -1034,6 +2436,9 @@ export class Game {
       case GameState.COUNTDOWN:
         this.onEnterCountdown();
         break;
+      case GameState.RUN:
+        this.onEnterRun();
+        break;
       case GameState.SCORE:
         this.onEnterScore();
         break;
@@ -1060,57 +2465,203 @@ export class Game {
     document.exitPointerLock();
 
     this.partyBoxManager.resetRoundCount();
-    this.scoreManager.resetAll(this.lobbyPlayers);
+    this.scoreManager.resetAll();
     this.levelManager.clearPlacedObjects();
     this.buildSystem.clearAllTools(); // 清理所有工具（十字弓、黑洞、金币、大炮）
+    this.placedItemRounds = [];
+    this.departedPlayerIds.clear();
+    this.hostMigrated = false;
+    this.sessionFeatures = SUPPORTED_FEATURES;
+    this.playerFeatures.clear();
+    this.reconnectTokens.clear();
+    this.clockSync.reset();
+    this.playerPings.clear();
+    this.networkManager.recorder.end();
+    this.stopReplay();
+    this.networkManager.closeRoom();
+    this.roomCode = null;
+    this.maxPlayers = Game.PLAYER_COLORS.length;
+    this.lobbyLocked = false;
+    this.bannedIds.clear();
+    this.bannedNicknames.clear();
+    this.rateLimiter.reset();
+    this.applyMatchRules({ ...DEFAULT_MATCH_RULES });
 
     this.localDeathSoundPlayed = false;
 
     // 重置玩家
-    this.players.forEach((player, id) => {
-      if (id !== "local") {
-        this.scene.remove(player.rig.root);
-        this.physicsWorld.world.removeBody(player.body);
-      } else {
-        player.resetPosition(new CANNON.Vec3(0, 5, 0));
-        player.score = 0;
-      }
-    });
-
+    this.removeRemotePlayers();
     const localPlayer = this.players.get("local");
-    this.players.clear();
     if (localPlayer) {
-      this.players.set("local", localPlayer);
+      localPlayer.resetPosition(new CANNON.Vec3(0, 5, 0));
+      localPlayer.score = 0;
     }
 
+    this.showTitleScreen();
+  }
+
+  /**
+   * 移除所有远程玩家的模型和物理体，开始比赛时按当前的移动权威重新生成
+   */
+  private removeRemotePlayers(): void {
+    this.players.forEach((player, id) => {
+      if (id === "local") return;
+      this.scene.remove(player.rig.root);
+      this.physicsWorld.world.removeBody(player.body);
+      this.players.delete(id);
+    });
+  }
+
+  private showTitleScreen(notice?: string): void {
     this.uiManager.showTitleScreen(
       (nickname) => {
-        this.myPlayerInfo.nickname = nickname;
+        this.myPlayerInfo.nickname = sanitizeNickname(nickname) || "Player";
         this.myPlayerInfo.isHost = true;
         this.myPlayerInfo.id = this.networkManager.getMyId();
+        delete this.myPlayerInfo.spectator;
         this.networkManager.setHost(true);
         this.lobbyPlayers = [this.myPlayerInfo];
         this.setState(GameState.LOBBY);
+        void this.openRoom();
       },
-      (nickname, hostId) => {
-        this.myPlayerInfo.nickname = nickname;
-        this.myPlayerInfo.isHost = false;
-        this.networkManager.connectToHost(hostId);
-
-        this.networkManager.onPeerConnected = () => {
-          this.networkManager.send(
-            {
-              t: PacketType.JOIN,
-              p: { nickname: nickname },
-            },
-            hostId
-          );
-        };
-      }
+      (nickname, roomCode, spectator) => {
+        this.joinAsSpectator = spectator;
+        void this.joinRoom(nickname, roomCode);
+      },
+      (recordingText) => this.startReplay(recordingText),
+      notice
     );
   }
 
+  /**
+   * 房主注册房间号，注册完成后刷新大厅显示
+   */
+  private async openRoom(preferred?: string): Promise<void> {
+    // ID 就绪前无法注册，onIdAssigned 会再次调用
+    if (!this.networkManager.getMyId()) return;
+
+    const code = await this.networkManager.openRoom(preferred);
+    // 等待期间可能已经离开了房间
+    if (!this.networkManager.isHostUser() || this.state === GameState.TITLE) {
+      this.networkManager.closeRoom();
+      return;
+    }
+
+    this.roomCode = code;
+    if (!code) {
+      this.uiManager.addChatMessage(
+        "System",
+        "Could not register a room code, share the Host ID instead",
+        "#AAAAAA"
+      );
+    }
+    this.refreshLobbyUI();
+  }
+
+  /**
+   * 开始录制本场比赛（房主开始比赛、客户端收到 START_GAME 或中途加入时）
+   */
+  private beginRecording(): void {
+    if (this.replay) return;
+    this.networkManager.recorder.begin({
+      recordedBy: this.networkManager.getMyId(),
+      hostClockOffset: this.networkManager.isHostUser() ? 0 : this.clockSync.getOffset(),
+      mapId: this.selectedMapId,
+      seed: this.matchSeed,
+      players: this.lobbyPlayers,
+    });
+  }
+
+  /**
+   * 回放录像：以只读观战者身份接收录制的数据包，Esc 退出
+   */
+  private startReplay(text: string): void {
+    const recording = parseRecording(text);
+    if (!recording) {
+      this.showTitleScreen("This file is not a match recording from this version of the game.");
+      return;
+    }
+
+    const transport = new ReplayTransport(recording);
+    this.replay = transport;
+    this.liveTransport = this.networkManager.setTransport(transport);
+    this.networkManager.setHost(false);
+
+    this.myPlayerInfo.id = this.networkManager.getMyId();
+    this.myPlayerInfo.isHost = false;
+    this.hostId = REPLAY_HOST_ID;
+    this.lobbyPlayers = structuredClone(recording.players);
+    this.selectedMapId = recording.mapId;
+    this.matchSeed = recording.seed;
+
+    // 把录制时的房主时钟映射到现在，倒计时和陷阱按录制时的节奏运行
+    const now = Date.now();
+    this.clockSync.reset();
+    this.clockSync.addSample(now, transport.getHostTimeOrigin(), now);
+
+    transport.onEnd = () => {
+      if (this.replay === transport) {
+        this.uiManager.showMessage("Replay finished - press Esc to exit");
+      }
+    };
+
+    this.uiManager.clearUI();
+    this.uiManager.showMessage("Replay - press Esc to exit");
+    this.networkManager.connectToHost(REPLAY_HOST_ID);
+  }
+
+  private stopReplay(): void {
+    if (!this.replay) return;
+
+    this.replay.stop();
+    this.replay = null;
+    this.hostId = "";
+    if (this.liveTransport) {
+      this.networkManager.setTransport(this.liveTransport);
+      this.liveTransport = null;
+    }
+    this.myPlayerInfo.id = this.networkManager.getMyId();
+  }
+
+  /**
+   * 通过分享链接打开时自动加入（只尝试一次）
+   */
+  private joinRoomFromLink(): void {
+    if (!this.pendingRoomCode || !this.networkManager.getMyId()) return;
+
+    const code = this.pendingRoomCode;
+    this.pendingRoomCode = null;
+    this.joinAsSpectator = false;
+    clearRoomCodeFromUrl();
+    void this.joinRoom("Player" + Math.floor(Math.random() * 1000), code);
+  }
+
+  /**
+   * 通过房间号查到房主 ID 后加入；输入不是房间号时当作 Host ID 直接连接
+   * （房主注册房间号失败时大厅里显示的是 Host ID）
+   */
+  private async joinRoom(nickname: string, input: string): Promise<void> {
+    this.myPlayerInfo.nickname = sanitizeNickname(nickname) || "Player";
+
+    const code = normalizeRoomCode(input);
+    let hostId: string | null = input.trim();
+    if (code) {
+      hostId = await this.networkManager.resolveRoom(code);
+      if (this.state !== GameState.TITLE) return;
+      if (!hostId) {
+        this.showTitleScreen(`Room ${code} was not found.`);
+        return;
+      }
+    }
+
+    this.myPlayerInfo.isHost = false;
+    this.hostId = hostId;
+    this.networkManager.connectToHost(hostId);
+  }
+
   private onEnterLobby(): void {
+    this.networkManager.recorder.end();
+    this.scoreManager.resetAll();
     this.cameraController.cancelTween();
     this.cameraController.setPosition(0, 1.5, 6);
     this.cameraController.lookAt(0, 1, 0);
@@ -1122,6 +2673,13 @@ export class Game {
 
     this.uiManager.clearUI();
     this.levelManager.clearPlacedObjects();
+    this.placedItemRounds = [];
+    this.departedPlayerIds.clear();
+    // 迁移时生成的远程玩家是运动学物理体，重新生成后下一场比赛可以恢复房主权威
+    if (this.hostMigrated) {
+      this.hostMigrated = false;
+      this.removeRemotePlayers();
+    }
     this.refreshLobbyUI();
   }
 
@@ -1130,6 +2688,7 @@ export class Game {
     this.players.forEach((player) => {
       player.rig.root.visible = true;
     });
+    this.applySpectatorState();
 
     this.uiManager.clearUI();
     document.exitPointerLock();
@@ -1140,6 +2699,12 @@ export class Game {
     this.levelManager.setPartyBoxVisible(true);
 
     this.playersFinishedTurn.clear();
+    this.pickedItems.clear();
+    this.placedItemRounds.push([]);
+    this.countdownStartedAt = null;
+    this.runStartedAt = null;
+    this.buildPhaseStartedAt = Date.now();
+    this.pendingPlacement = null;
     this.buildSystem.selectedItem = null;
     this.buildSystem.rotation = 0;
 
@@ -1188,7 +2753,15 @@ export class Game {
       this.uiManager.showMessage("BOOM!");
     }
 
-    this.countdownTimer = 3.0;
+    // 房主记录倒计时开始时间并广播，客户端据此对齐（可能在此之前或之后收到）
+    if (this.networkManager.isHostUser()) {
+      this.countdownStartedAt = Date.now();
+      this.networkManager.send({
+        t: PacketType.EVENT_STATE,
+        p: { state: GameState.COUNTDOWN, at: this.countdownStartedAt },
+      });
+    }
+    this.countdownTimer = Game.COUNTDOWN_DURATION;
     document.body.requestPointerLock();
     this.uiManager.showMessage("Get Ready! 3");
 
@@ -1198,10 +2771,36 @@ export class Game {
 
     this.playersFinishedTurn.clear();
     this.scoreManager.resetRound();
+    this.lastSnapshotSeqs.clear();
+    this.snapshotBuffers.clear();
+    this.remoteInputs.clear();
+    this.remoteInputQueues.clear();
+    this.runResultHints.clear();
+    this.clientPrediction.reset();
+    this.localRunResult = null;
+    this.lastRoundScores = null;
 
     this.localDeathSoundPlayed = false;
   }
 
+  private onEnterRun(): void {
+    // 回合时钟从倒计时结束的时刻开始，所有人的陷阱从同一时刻开始计时
+    this.runStartedAt =
+      this.countdownStartedAt !== null
+        ? this.countdownStartedAt +
+          (Game.COUNTDOWN_DURATION + Game.COUNTDOWN_GO_DURATION) * 1000
+        : this.clockSync.toHostTime(Date.now());
+    this.buildSystem.resetTrapClocks();
+  }
+
+  /**
+   * RUN 开始后经过的秒数（基于房主时钟，各端一致），其他阶段为 undefined
+   */
+  private getRoundTime(): number | undefined {
+    if (this.state !== GameState.RUN || this.runStartedAt === null) return undefined;
+    return Math.max(0, (this.clockSync.toHostTime(Date.now()) - this.runStartedAt) / 1000);
+  }
+
   private onEnterScore(): void {
     document.exitPointerLock();
 
@@ -1211,65 +2810,115 @@ export class Game {
     this.players.forEach((player) => {
       player.rig.root.visible = true;
     });
+    this.applySpectatorState();
 
     setTimeout(() => {
-      if (this.networkManager.isHostUser()) {
-        const scores = this.scoreManager.calculateScores(
-          this.lobbyPlayers,
-          this.networkManager.getMyId(),
-          (id) => {
-            if (id === this.networkManager.getMyId()) {
-              return this.players.get("local");
-            }
-            return this.players.get(id);
-          }
-        );
+      if (this.networkManager.isHostUser() && !this.lastRoundScores) {
+        this.showRoundScores();
+      }
+    }, 2000);
+  }
 
-        this.networkManager.send({
-          t: PacketType.SHOW_SCORE,
-          p: { scores: scores },
-        });
+  /**
+   * 房主计算并广播本回合分数
+   */
+  private showRoundScores(): void {
+    const scores = this.scoreManager.calculateScores(
+      this.lobbyPlayers.filter((p) => this.isParticipant(p)),
+      this.networkManager.getMyId(),
+      (id) => {
+        if (id === this.networkManager.getMyId()) {
+          return this.players.get("local");
+        }
+        return this.players.get(id);
+      }
+    );
+    this.lastRoundScores = scores;
 
-        this.uiManager.showScoreScreen(scores, ScoreManager.GOAL_SCORE, () => {
-          const winner = this.scoreManager.checkWinner(scores);
+    this.networkManager.send({
+      t: PacketType.SHOW_SCORE,
+      p: { ledger: this.scoreManager.getLedger().serialize() },
+    });
 
-          if (winner) {
-            const winnerPlayer = this.lobbyPlayers.find(
-              (p) => p.nickname === winner.nickname
-            );
-            const winnerCharacter = winnerPlayer?.character || "chicken";
+    this.uiManager.showScoreScreen(
+      this.scoreManager.getLedger(),
+      this.matchRules,
+      (playerId) => this.getScorePlayerColor(playerId),
+      () => {
+        this.finishScorePhase();
+      }
+    );
+  }
 
-            this.networkManager.send({
-              t: PacketType.GAME_WIN,
-              p: { nickname: winner.nickname, character: winnerCharacter },
-            });
+  /**
+   * 分数展示结束：有赢家则结束比赛，否则开始下一回合
+   */
+  private finishScorePhase(): void {
+    // 按账本总分比较仍在房间中的所有玩家（观战者除外）
+    const outcome = this.scoreManager.resolveMatchEnd(
+      this.lobbyPlayers.filter((p) => !p.spectator).map((p) => p.id)
+    );
 
-            this.audio.playSfx(AudioIds.Win);
-            this.uiManager.showWinScreen(
-              winner.nickname,
-              winnerCharacter,
-              () => {
-                this.scoreManager.resetAll(this.lobbyPlayers);
-                this.setState(GameState.LOBBY);
-              }
-            );
-          } else {
-            this.networkManager.send({ t: PacketType.START_GAME, p: {} });
-            this.startGame();
-          }
-        });
+    if (outcome?.kind === "win") {
+      const winners: GameWinner[] = outcome.winners.map((winner) => ({
+        nickname: winner.nickname,
+        character:
+          this.lobbyPlayers.find((p) => p.id === winner.id)?.character || "chicken",
+      }));
+      const payload: GameWinPayload = { winners };
+      if (outcome.reason) {
+        payload.reason = outcome.reason;
       }
-    }, 2000);
+
+      this.networkManager.send({ t: PacketType.GAME_WIN, p: payload });
+
+      this.audio.playSfx(AudioIds.Win);
+      this.uiManager.showWinScreen(
+        payload.winners,
+        payload.reason,
+        () => {
+          this.scoreManager.resetAll();
+          this.setState(GameState.LOBBY);
+        }
+      );
+    } else {
+      this.scoreManager.setSuddenDeath(
+        outcome?.kind === "suddenDeath" ? outcome.playerIds : null
+      );
+      this.broadcastStartGame();
+      this.startGame();
+    }
+  }
+
+  /**
+   * 加赛回合开始时在聊天中提示参加加赛的玩家
+   */
+  private announceSuddenDeath(playerIds: string[]): void {
+    const names = playerIds.map((id) => this.getPlayerNickname(id)).join(" vs ");
+    this.uiManager.addChatMessage("System", `Sudden death: ${names}`, "#AAAAAA");
+  }
+
+  /**
+   * 客户端同步房主下发的分数账本（用于房主迁移后继续比赛）
+   */
+  private applyScoreLedger(data: ScoreLedgerData): void {
+    this.scoreManager.getLedger().load(data);
+    this.lastRoundScores = this.scoreManager.getLedger().getLatestResults();
   }
 
   // ========== 游戏循环 ==========
 
   private update(): void {
+    this.updatePing();
+    this.updateBuildTimer();
     this.physicsWorld.step(1 / 60);
 
+    // 陷阱计时由共享的回合时钟驱动
+    const roundTime = this.getRoundTime();
+
     // 更新十字弓（统一从 BuildSystem 获取，避免重复更新）
     this.buildSystem.getCrossbows().forEach((crossbow) => {
-      crossbow.update(1 / 60);
+      crossbow.update(1 / 60, roundTime);
     });
 
     // 收集所有玩家的物理body（用于黑洞吸引）
@@ -1282,7 +2931,7 @@ export class Game {
 
     // 更新黑洞（旋转和吸引玩家）
     this.buildSystem.getBlackHoles().forEach((blackHole) => {
-      blackHole.update(1 / 60, playerBodies);
+      blackHole.update(1 / 60, playerBodies, roundTime);
       
       // 检查玩家是否被吸入黑洞
       this.players.forEach((player, _playerId) => {
@@ -1315,7 +2964,7 @@ export class Game {
 
     // 更新大炮（冷却）并检查玩家是否进入
     this.buildSystem.getCannons().forEach((cannon) => {
-      cannon.update(1 / 60);
+      cannon.update(1 / 60, roundTime);
       
       // 设置发射回调
       if (!cannon.onLaunch) {
@@ -1351,10 +3000,25 @@ export class Game {
     });
 
     // 更新玩家
+    if (this.state === GameState.RUN || this.state === GameState.COUNTDOWN) {
+      if (this.networkManager.isHostUser() && this.isHostAuthoritative()) {
+        this.updateAuthoritativeRemotePlayers();
+      } else {
+        this.updateRemotePlayers();
+      }
+    }
     this.players.forEach((player) => {
       player.update(1 / 60);
     });
 
+    if (
+      this.state === GameState.RUN &&
+      this.networkManager.isHostUser() &&
+      this.isHostAuthoritative()
+    ) {
+      this.detectAuthoritativeRunResults();
+    }
+
     // 更新相机平滑过渡
     this.cameraController.updateTween(1 / 60);
 
@@ -1419,10 +3083,16 @@ export class Game {
   }
 
   private updateCountdown(): void {
-    this.countdownTimer -= 1 / 60;
+    if (this.countdownStartedAt !== null && this.isClockSynced()) {
+      const elapsed =
+        (this.clockSync.toHostTime(Date.now()) - this.countdownStartedAt) / 1000;
+      this.countdownTimer = Game.COUNTDOWN_DURATION - elapsed;
+    } else {
+      this.countdownTimer -= 1 / 60;
+    }
     
     // 倒计时结束后显示 GO! 并停留一小段时间
-    if (this.countdownTimer <= -0.8) {
+    if (this.countdownTimer <= -Game.COUNTDOWN_GO_DURATION) {
       this.setState(GameState.RUN);
     } else {
       const timeLeft = Math.ceil(this.countdownTimer);
@@ -1434,22 +3104,36 @@ export class Game {
 
       const localPlayer = this.players.get("local");
       if (localPlayer) {
-        if (localPlayer.body.position.x < -1) localPlayer.body.position.x = -1;
-        if (localPlayer.body.position.x > 1) localPlayer.body.position.x = 1;
-        if (localPlayer.body.position.z < -1) localPlayer.body.position.z = -1;
-        if (localPlayer.body.position.z > 1) localPlayer.body.position.z = 1;
+        this.clampToSpawnArea(localPlayer);
       }
     }
   }
 
+  /**
+   * 房主的时钟就是基准；客户端需要至少一次 PING/PONG 才能换算
+   */
+  private isClockSynced(): boolean {
+    return this.networkManager.isHostUser() || this.clockSync.hasSamples();
+  }
+
+  /**
+   * 倒计时期间把玩家限制在出生区域内
+   */
+  private clampToSpawnArea(player: Player): void {
+    if (player.body.position.x < -1) player.body.position.x = -1;
+    if (player.body.position.x > 1) player.body.position.x = 1;
+    if (player.body.position.z < -1) player.body.position.z = -1;
+    if (player.body.position.z > 1) player.body.position.z = 1;
+  }
+
   private updatePlayerControl(): void {
     const localPlayer = this.players.get("local");
     if (!localPlayer) return;
 
     // 观战模式
     if (
-      this.state === GameState.RUN &&
-      this.playersFinishedTurn.has(this.networkManager.getMyId())
+      (this.state === GameState.RUN && this.isLocalTurnOver()) ||
+      this.isLocalSpectating()
     ) {
       this.cameraController.updateFreeCamera(
         this.inputManager.isKeyPressed("KeyW"),
@@ -1476,20 +3160,38 @@ export class Game {
       };
       localPlayer.setInput(input, this.cameraController.angleY, 1 / 60);
 
+      // 房主权威模式：记录本次步进的输入，本地继续预测，按固定频率上报
+      if (this.isHostAuthoritative() && !this.networkManager.isHostUser()) {
+        const pos = localPlayer.body.position;
+        this.clientPrediction.recordInput(
+          {
+            x: input.x,
+            y: input.y,
+            j: input.jump,
+            cam: this.cameraController.angleY,
+            s: input.sprint,
+          },
+          new THREE.Vector3(pos.x, pos.y, pos.z)
+        );
+        this.sendInputs();
+      }
+
       const targetPos = new THREE.Vector3();
       localPlayer.rig.root.getWorldPosition(targetPos);
       this.cameraController.updateOrbitCamera(targetPos);
     }
 
     // 检测死亡/胜利
-    if (this.state === GameState.RUN) {
-      if (!this.playersFinishedTurn.has(this.networkManager.getMyId())) {
+    // 结果只上报一次：进入观战前的延迟期间不能每帧重复上报（否则击杀会被重复计分）
+    if (this.state === GameState.RUN && !this.localRunResult) {
+      if (!this.isLocalTurnOver()) {
         if (localPlayer.checkDeath() || localPlayer.hasWon) {
           if (localPlayer.hasWon) {
             // 胜利逻辑：显示 GOAL，延迟切换视角
             this.uiManager.showMessage("GOAL!");
           } else {
-            // 死亡逻辑
+            // 死亡逻辑（掉落死亡不会经过碰撞回调，这里补上动画状态）
+            localPlayer.setAnimState("dead");
             this.uiManager.showDeathScreen();
             
             // 延迟1秒后重生并进入观战
@@ -1515,24 +3217,20 @@ export class Game {
             localPlayer.setAnimState("dance");
           }
 
+          this.localRunResult = {
+            won: localPlayer.hasWon,
+            killedBy: localPlayer.lastHitBy,
+          };
           this.networkManager.send({
             t: PacketType.PLAYER_FINISHED_RUN,
-            p: {
-              won: localPlayer.hasWon,
-              killedBy: localPlayer.lastHitBy,
-            },
+            p: this.localRunResult,
           });
 
           if (this.networkManager.isHostUser()) {
-            if (localPlayer.hasWon) {
-              this.scoreManager.recordFinish(this.networkManager.getMyId());
-            }
-            if (
-              localPlayer.lastHitBy &&
-              localPlayer.lastHitBy !== this.networkManager.getMyId()
-            ) {
-              this.scoreManager.recordTrapKill(localPlayer.lastHitBy);
-            }
+            this.recordRunResult(
+              this.networkManager.getMyId(),
+              this.localRunResult
+            );
           }
 
           // 胜利延迟 1s，死亡延迟 2s (死亡有1s的重生等待)
@@ -1550,7 +3248,7 @@ export class Game {
             this.cameraController.lookAt(0, 0, 12);
 
             if (this.networkManager.isHostUser()) {
-              if (this.playersFinishedTurn.size >= this.lobbyPlayers.length) {
+              if (this.haveAllPlayersFinishedTurn()) {
                 this.setState(GameState.SCORE);
               }
             }
@@ -1560,26 +3258,84 @@ export class Game {
     }
   }
 
+  /**
+   * 按快照频率（与渲染帧率无关）把尚未确认的输入成批发给房主
+   */
+  private sendInputs(): void {
+    const now = performance.now();
+    if (now - this.lastInputSentAt < 1000 / this.networkConfig.snapshotRate) {
+      return;
+    }
+
+    const inputs = this.clientPrediction.getUnacknowledgedInputs();
+    if (inputs.length === 0) return;
+    this.lastInputSentAt = now;
+    this.networkManager.send({ t: PacketType.INPUT, p: { inputs } });
+  }
+
   private sendSnapshot(): void {
+    const now = performance.now();
+    if (now - this.lastSnapshotSentAt < 1000 / this.networkConfig.snapshotRate) {
+      return;
+    }
+
+    // 房主权威模式下客户端只上报输入，位置由房主下发
+    const isHost = this.networkManager.isHostUser();
+    if (this.isHostAuthoritative() && !isHost) return;
+    if (this.isLocalSpectating() && !isHost) return;
+
     const localPlayer = this.players.get("local");
     if (localPlayer && this.networkManager.getMyId()) {
+      this.lastSnapshotSentAt = now;
+      this.sendPlayerSnapshot(this.networkManager.getMyId(), localPlayer);
+
+      if (isHost && this.isHostAuthoritative()) {
+        this.players.forEach((player, id) => {
+          if (id !== "local") {
+            this.sendPlayerSnapshot(id, player, this.remoteInputs.get(id)?.seq);
+          }
+        });
+      }
+    }
+  }
+
+  private sendPlayerSnapshot(id: string, player: Player, ack?: number): void {
+    this.snapshotSeq = (this.snapshotSeq + 1) & 0xffff;
+
+    const snapshot: SnapshotPayload = {
+      id: id,
+      pos: [
+        player.body.position.x,
+        player.body.position.y,
+        player.body.position.z,
+      ],
+      rot: [
+        player.body.quaternion.x,
+        player.body.quaternion.y,
+        player.body.quaternion.z,
+        player.body.quaternion.w,
+      ],
+      anim: player.getAnimState(),
+      seq: this.snapshotSeq,
+    };
+    if (ack !== undefined) {
+      snapshot.ack = ack;
+    }
+
+    if (
+      this.networkConfig.snapshotFormat === "binary" &&
+      this.sessionFeatures.includes("binarySnapshots")
+    ) {
+      this.networkManager.send({
+        t: PacketType.SNAPSHOT_BINARY,
+        p: SnapshotCodec.encode(snapshot),
+        Ts: Date.now(),
+      });
+    } else {
       this.networkManager.send({
         t: PacketType.SNAPSHOT,
-        p: {
-          id: this.networkManager.getMyId(),
-          pos: [
-            localPlayer.body.position.x,
-            localPlayer.body.position.y,
-            localPlayer.body.position.z,
-          ],
-          rot: [
-            localPlayer.body.quaternion.x,
-            localPlayer.body.quaternion.y,
-            localPlayer.body.quaternion.z,
-            localPlayer.body.quaternion.w,
-          ],
-          anim: "idle",
-        },
+        p: snapshot,
+        Ts: Date.now(),
       });
     }
   }
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_MATCH_RULES,
+  MATCH_RULE_FIELDS,
+  MatchRules,
+  normalizeMatchRules,
+} from "./MatchRules";
+
+describe("normalizeMatchRules", () => {
+  it("fills missing rules with the defaults", () => {
+    expect(normalizeMatchRules({})).toEqual(DEFAULT_MATCH_RULES);
+    expect(normalizeMatchRules({ pointsToWin: 80 })).toEqual({
+      ...DEFAULT_MATCH_RULES,
+      pointsToWin: 80,
+    });
+  });
+
+  it("clamps every field to its range and rounds to whole numbers", () => {
+    MATCH_RULE_FIELDS.forEach(({ key, min, max }) => {
+      expect(normalizeMatchRules({ [key]: max + 1000 })[key]).toBe(max);
+      expect(normalizeMatchRules({ [key]: min - 1000 })[key]).toBe(min);
+    });
+    expect(normalizeMatchRules({ goalPoints: 12.6 }).goalPoints).toBe(13);
+  });
+
+  it("ignores values that are not finite numbers", () => {
+    const rules = normalizeMatchRules({
+      goalPoints: NaN,
+      soloPoints: Infinity,
+      firstPoints: "20" as unknown as number,
+    });
+    expect(rules.goalPoints).toBe(DEFAULT_MATCH_RULES.goalPoints);
+    expect(rules.soloPoints).toBe(DEFAULT_MATCH_RULES.soloPoints);
+    expect(rules.firstPoints).toBe(DEFAULT_MATCH_RULES.firstPoints);
+  });
+
+  it("accepts only known tie-break modes", () => {
+    expect(normalizeMatchRules({ tieBreak: "shared" }).tieBreak).toBe("shared");
+    expect(
+      normalizeMatchRules({ tieBreak: "coinFlip" as MatchRules["tieBreak"] }).tieBreak
+    ).toBe(DEFAULT_MATCH_RULES.tieBreak);
+  });
+
+  it("keeps the defaults inside the editable ranges", () => {
+    expect(normalizeMatchRules(DEFAULT_MATCH_RULES)).toEqual(DEFAULT_MATCH_RULES);
+  });
+});
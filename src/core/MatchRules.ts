@@ -0,0 +1,78 @@
+/**
+ * 最高总分相同时的决胜方式
+ * mostGoals: 到达终点次数多者胜；suddenDeath: 并列者加赛一回合；shared: 共同获胜
+ */
+export type TieBreak = "mostGoals" | "suddenDeath" | "shared";
+
+export const TIE_BREAKS: ReadonlyArray<{ id: TieBreak; label: string }> = [
+  { id: "mostGoals", label: "Most goals" },
+  { id: "suddenDeath", label: "Sudden death" },
+  { id: "shared", label: "Shared win" },
+];
+
+/**
+ * 比赛规则：房主在大厅中设置，开始比赛时随 START_GAME 下发
+ */
+export interface MatchRules {
+  goalPoints: number;     // 终点得分
+  soloPoints: number;     // 独行得分
+  firstPoints: number;    // 第一得分
+  trapKillPoints: number; // 陷阱每次击杀得分
+  goldCoinPoints: number; // 金币得分
+  pointsToWin: number;    // 胜利所需总分
+  extraItems: number;     // 每个 Party Box 的物品数 = 参赛人数 + extraItems
+  roundLimit: number;     // 最多回合数，0 为不限
+  buildTimeLimit: number; // 选择和放置物品的时限（秒），0 为不限
+  tieBreak: TieBreak;
+}
+
+export const DEFAULT_MATCH_RULES: Readonly<MatchRules> = {
+  goalPoints: 15,
+  soloPoints: 10,
+  firstPoints: 5,
+  trapKillPoints: 5,
+  goldCoinPoints: 8,
+  pointsToWin: 50,
+  extraItems: 2,
+  roundLimit: 0,
+  buildTimeLimit: 0,
+  tieBreak: "mostGoals",
+};
+
+/**
+ * 每项规则在大厅中的显示名称和可调范围
+ */
+export const MATCH_RULE_FIELDS: ReadonlyArray<{
+  key: Exclude<keyof MatchRules, "tieBreak">;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}> = [
+  { key: "pointsToWin", label: "Points to win", min: 10, max: 200, step: 10 },
+  { key: "goalPoints", label: "Goal", min: 0, max: 50, step: 1 },
+  { key: "soloPoints", label: "Solo", min: 0, max: 50, step: 1 },
+  { key: "firstPoints", label: "First", min: 0, max: 50, step: 1 },
+  { key: "trapKillPoints", label: "Trap kill", min: 0, max: 50, step: 1 },
+  { key: "goldCoinPoints", label: "Gold", min: 0, max: 50, step: 1 },
+  { key: "extraItems", label: "Extra items", min: 0, max: 6, step: 1 },
+  { key: "roundLimit", label: "Round limit", min: 0, max: 50, step: 1 },
+  { key: "buildTimeLimit", label: "Build timer (s)", min: 0, max: 120, step: 5 },
+];
+
+/**
+ * 把规则限制在可调范围内（缺失或无效的项使用默认值），用于房主编辑和客户端接收
+ */
+export function normalizeMatchRules(rules: Partial<MatchRules>): MatchRules {
+  const normalized = { ...DEFAULT_MATCH_RULES };
+  MATCH_RULE_FIELDS.forEach(({ key, min, max }) => {
+    const value = rules[key];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      normalized[key] = Math.max(min, Math.min(max, Math.round(value)));
+    }
+  });
+  if (TIE_BREAKS.some((t) => t.id === rules.tieBreak)) {
+    normalized.tieBreak = rules.tieBreak!;
+  }
+  return normalized;
+}
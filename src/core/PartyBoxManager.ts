@@ -1,5 +1,7 @@
 import * as THREE from "three";
 import { Resources } from "./Resources";
+import { MathHelpers } from "../utils/MathHelpers";
+import { MatchRules, DEFAULT_MATCH_RULES } from "./MatchRules";
 
 /**
  * Party Box 物品数据
@@ -27,6 +29,12 @@ export class PartyBoxManager {
   // 回合计数
   private currentRound: number = 0;
 
+  // 物品抽取使用比赛种子，录像中记录种子即可复现
+  private random: () => number = Math.random;
+
+  // 每个 Party Box 比参赛人数多出的物品数
+  private extraItems: number = DEFAULT_MATCH_RULES.extraItems;
+
   constructor(resources: Resources, partyBoxRoot: THREE.Group) {
     this.resources = resources;
     this.partyBoxRoot = partyBoxRoot;
@@ -36,7 +44,7 @@ export class PartyBoxManager {
    * 生成 Party Box 物品
    */
   public generateItems(playerCount: number): PartyBoxItemData[] {
-    const numItems = playerCount + 2;
+    const numItems = playerCount + this.extraItems;
     const selectedItems: PartyBoxItemData[] = [];
     // 对应 LevelManager 中的新位置
     const boxPos = new THREE.Vector3(1000, 0, 0);
@@ -69,7 +77,7 @@ export class PartyBoxManager {
     for (let i = 0; i < remainingItems; i++) {
       const id =
         PartyBoxManager.ALL_ITEMS[
-          Math.floor(Math.random() * PartyBoxManager.ALL_ITEMS.length)
+          Math.floor(this.random() * PartyBoxManager.ALL_ITEMS.length)
         ];
       
       const angle = (startIdx + i) * angleStep;
@@ -145,6 +153,15 @@ export class PartyBoxManager {
     }
   }
 
+  /**
+   * 归还物品（选择该物品的玩家离开时）
+   */
+  public returnItem(index: number): void {
+    if (!this.items[index]) return;
+    this.availableItems.add(index.toString());
+    this.items[index].visible = true;
+  }
+
   /**
    * 获取物品的 itemId
    */
@@ -174,6 +191,24 @@ export class PartyBoxManager {
     this.currentRound = 0;
   }
 
+  /**
+   * 设置回合计数（中途加入时与房主同步）
+   */
+  public setRoundCount(round: number): void {
+    this.currentRound = round;
+  }
+
+  /**
+   * 比赛开始时由房主设置种子
+   */
+  public setSeed(seed: number): void {
+    this.random = MathHelpers.createRandom(seed);
+  }
+
+  public setRules(rules: MatchRules): void {
+    this.extraItems = rules.extraItems;
+  }
+
   /**
    * 获取当前回合
    */
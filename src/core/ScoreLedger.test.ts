@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { ScoreLedger, RoundScore } from "./ScoreLedger";
+
+function score(points: Record<string, number>, reachedGoal: boolean = false): RoundScore {
+  return {
+    breakdown: Object.entries(points).map(([type, p]) => ({ type, points: p, color: "#FFFFFF" })),
+    reachedGoal,
+  };
+}
+
+function createLedger(): ScoreLedger {
+  const ledger = new ScoreLedger();
+  ledger.recordRound([
+    { id: "a", nickname: "Alice", score: score({ Goal: 15, First: 5 }, true) },
+    { id: "b", nickname: "Bob", score: score({}) },
+  ]);
+  // b 本回合没有参与，c 首次计分
+  ledger.recordRound([
+    { id: "c", nickname: "Carol", score: score({ Goal: 15 }, true) },
+    { id: "a", nickname: "Alice", score: score({ "Trap Kill": 10 }) },
+  ]);
+  return ledger;
+}
+
+describe("ScoreLedger", () => {
+  it("sums every round into totals and history", () => {
+    const ledger = createLedger();
+    expect(ledger.getRoundCount()).toBe(2);
+    expect(ledger.getTotal("a")).toBe(30);
+    expect(ledger.getHistory("a")).toEqual([20, 30]);
+    // 没有参与的回合总分保持不变
+    expect(ledger.getHistory("b")).toEqual([0, 0]);
+    expect(ledger.getHistory("c")).toEqual([0, 15]);
+    expect(ledger.getTotal("unknown")).toBe(0);
+  });
+
+  it("counts goals across the match", () => {
+    const ledger = createLedger();
+    expect(ledger.getGoalCount("a")).toBe(1);
+    expect(ledger.getGoalCount("b")).toBe(0);
+    expect(ledger.getGoalCount("c")).toBe(1);
+  });
+
+  it("lists players in the order they were first scored", () => {
+    expect(createLedger().getPlayers()).toEqual([
+      { id: "a", nickname: "Alice" },
+      { id: "b", nickname: "Bob" },
+      { id: "c", nickname: "Carol" },
+    ]);
+  });
+
+  it("returns the latest round for players who took part in it", () => {
+    const results = createLedger().getLatestResults();
+    expect(results.map((r) => [r.id, r.current, r.added, r.goals])).toEqual([
+      ["a", 30, 10, 1],
+      ["c", 15, 15, 1],
+    ]);
+    expect(new ScoreLedger().getLatestResults()).toEqual([]);
+  });
+
+  it("returns round scores and null for rounds a player missed", () => {
+    const ledger = createLedger();
+    expect(ledger.getRoundScore("a", 0)?.reachedGoal).toBe(true);
+    expect(ledger.getRoundScore("b", 1)).toBeNull();
+    expect(ledger.getRoundScore("a", 5)).toBeNull();
+  });
+
+  it("copies recorded scores", () => {
+    const ledger = new ScoreLedger();
+    const entry = score({ Goal: 15 });
+    ledger.recordRound([{ id: "a", nickname: "Alice", score: entry }]);
+    entry.breakdown[0].points = 999;
+    expect(ledger.getTotal("a")).toBe(15);
+  });
+
+  it("transfers a returning player's record to the new ID in place", () => {
+    const ledger = createLedger();
+    ledger.transferPlayer("a", "a2", "Alice");
+
+    expect(ledger.getPlayers().map((p) => p.id)).toEqual(["a2", "b", "c"]);
+    expect(ledger.getHistory("a2")).toEqual([20, 30]);
+    expect(ledger.getTotal("a")).toBe(0);
+
+    // 未知的 ID 不产生记录
+    ledger.transferPlayer("missing", "x", "X");
+    expect(ledger.getPlayers()).toHaveLength(3);
+  });
+
+  it("round-trips through serialize and load", () => {
+    const original = createLedger();
+    const data = JSON.parse(JSON.stringify(original.serialize()));
+
+    const loaded = new ScoreLedger();
+    loaded.load(data);
+    expect(loaded.serialize()).toEqual(original.serialize());
+    expect(loaded.getHistory("a")).toEqual([20, 30]);
+    expect(loaded.getLatestResults()).toEqual(original.getLatestResults());
+  });
+
+  it("forgets everything when cleared", () => {
+    const ledger = createLedger();
+    ledger.clear();
+    expect(ledger.getRoundCount()).toBe(0);
+    expect(ledger.getPlayers()).toEqual([]);
+  });
+});
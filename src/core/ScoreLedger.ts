@@ -0,0 +1,145 @@
+import type { ScoreBreakdown, PlayerScoreResult } from "./ScoreManager";
+
+/**
+ * 一名玩家在一个回合中的得分
+ */
+export interface RoundScore {
+  breakdown: ScoreBreakdown[];
+  reachedGoal: boolean; // 到达终点（即使所有人都到达、没有 Goal 得分），用于决胜
+}
+
+/**
+ * 可序列化的分数账本，用于 SHOW_SCORE 和 RESYNC
+ */
+export interface ScoreLedgerData {
+  players: { id: string; nickname: string }[]; // 按首次计分的顺序，包括已离开的玩家
+  rounds: { [playerId: string]: RoundScore }[]; // 每回合参与计分的玩家
+}
+
+/**
+ * 分数账本：按玩家 ID 记录每回合的得分明细，总分和历史都由此计算
+ */
+export class ScoreLedger {
+  private nicknames: Map<string, string> = new Map(); // 插入顺序即显示顺序
+  private rounds: Map<string, RoundScore>[] = [];
+
+  /**
+   * 记录一个回合的得分
+   */
+  public recordRound(
+    entries: { id: string; nickname: string; score: RoundScore }[]
+  ): void {
+    const round = new Map<string, RoundScore>();
+    entries.forEach(({ id, nickname, score }) => {
+      this.nicknames.set(id, nickname);
+      round.set(id, structuredClone(score));
+    });
+    this.rounds.push(round);
+  }
+
+  public getRoundCount(): number {
+    return this.rounds.length;
+  }
+
+  public getTotal(playerId: string): number {
+    const history = this.getHistory(playerId);
+    return history.length > 0 ? history[history.length - 1] : 0;
+  }
+
+  /**
+   * 每回合结束后的累计总分，没有参与的回合保持不变
+   */
+  public getHistory(playerId: string): number[] {
+    let total = 0;
+    return this.rounds.map((round) => {
+      total += ScoreLedger.sumPoints(round.get(playerId));
+      return total;
+    });
+  }
+
+  public getGoalCount(playerId: string): number {
+    return this.rounds.filter((round) => round.get(playerId)?.reachedGoal).length;
+  }
+
+  /**
+   * 某回合的得分明细（round 从 0 开始），没有参与时返回 null
+   */
+  public getRoundScore(playerId: string, round: number): RoundScore | null {
+    return this.rounds[round]?.get(playerId) ?? null;
+  }
+
+  /**
+   * 记录过分数的玩家（包括已离开的），按首次计分的顺序
+   */
+  public getPlayers(): { id: string; nickname: string }[] {
+    return Array.from(this.nicknames, ([id, nickname]) => ({ id, nickname }));
+  }
+
+  /**
+   * 最近一个回合的结果，只包含参与该回合的玩家
+   */
+  public getLatestResults(): PlayerScoreResult[] {
+    const latest = this.rounds[this.rounds.length - 1];
+    if (!latest) return [];
+
+    return this.getPlayers()
+      .filter(({ id }) => latest.has(id))
+      .map(({ id, nickname }) => {
+        const score = latest.get(id)!;
+        return {
+          id,
+          nickname,
+          current: this.getTotal(id),
+          added: ScoreLedger.sumPoints(score),
+          breakdown: score.breakdown,
+          goals: this.getGoalCount(id),
+        };
+      });
+  }
+
+  /**
+   * 离开的玩家重新加入（Peer ID 已变化）：把之前的记录转到新 ID 下
+   */
+  public transferPlayer(fromId: string, toId: string, nickname: string): void {
+    if (!this.nicknames.has(fromId)) return;
+    // 保持原来的显示顺序
+    this.nicknames = new Map(
+      Array.from(this.nicknames, ([id, name]): [string, string] =>
+        id === fromId ? [toId, nickname] : [id, name]
+      )
+    );
+    this.rounds.forEach((round) => {
+      const score = round.get(fromId);
+      if (score) {
+        round.delete(fromId);
+        round.set(toId, score);
+      }
+    });
+  }
+
+  public serialize(): ScoreLedgerData {
+    return {
+      players: this.getPlayers(),
+      rounds: this.rounds.map((round) => structuredClone(Object.fromEntries(round))),
+    };
+  }
+
+  /**
+   * 用房主下发的账本替换本地记录
+   */
+  public load(data: ScoreLedgerData): void {
+    this.nicknames = new Map(data.players.map((p) => [p.id, p.nickname]));
+    this.rounds = data.rounds.map(
+      (round) => new Map(Object.entries(structuredClone(round)))
+    );
+  }
+
+  public clear(): void {
+    this.nicknames.clear();
+    this.rounds = [];
+  }
+
+  private static sumPoints(score: RoundScore | undefined): number {
+    return score ? score.breakdown.reduce((sum, s) => sum + s.points, 0) : 0;
+  }
+}
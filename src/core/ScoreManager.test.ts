@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { ScoreManager } from "./ScoreManager";
+import { DEFAULT_MATCH_RULES, MatchRules } from "./MatchRules";
+
+function createManager(rules: Partial<MatchRules>) {
+  const manager = new ScoreManager();
+  manager.setRules({ ...DEFAULT_MATCH_RULES, pointsToWin: 20, ...rules });
+
+  // 每回合每名玩家的得分；reachedGoal 用于 mostGoals 决胜
+  const recordRound = (points: Record<string, number>, goals: string[] = []) =>
+    manager.getLedger().recordRound(
+      Object.entries(points).map(([id, p]) => ({
+        id,
+        nickname: id.toUpperCase(),
+        score: {
+          breakdown: [{ type: "Goal", points: p, color: "#FFFFFF" }],
+          reachedGoal: goals.includes(id),
+        },
+      }))
+    );
+
+  return { manager, recordRound };
+}
+
+describe("ScoreManager.resolveMatchEnd", () => {
+  it("keeps playing until someone reaches the points to win", () => {
+    const { manager, recordRound } = createManager({});
+    recordRound({ a: 10, b: 5 });
+    expect(manager.resolveMatchEnd(["a", "b"])).toBeNull();
+
+    recordRound({ a: 10, b: 5 });
+    expect(manager.resolveMatchEnd(["a", "b"])).toEqual({
+      kind: "win",
+      winners: [{ id: "a", nickname: "A" }],
+    });
+  });
+
+  it("ends at the round limit with the highest total", () => {
+    const { manager, recordRound } = createManager({ roundLimit: 2 });
+    recordRound({ a: 3, b: 5 });
+    expect(manager.resolveMatchEnd(["a", "b"])).toBeNull();
+
+    recordRound({ a: 1, b: 0 });
+    expect(manager.resolveMatchEnd(["a", "b"])).toEqual({
+      kind: "win",
+      winners: [{ id: "b", nickname: "B" }],
+      reason: "Round limit reached",
+    });
+  });
+
+  it("compares ledger totals, including players who sat out the last round", () => {
+    const { manager, recordRound } = createManager({ tieBreak: "shared" });
+    recordRound({ a: 10, b: 20 });
+    recordRound({ a: 10 });
+
+    const outcome = manager.resolveMatchEnd(["a", "b"]);
+    expect(outcome).toEqual({
+      kind: "win",
+      winners: [
+        { id: "a", nickname: "A" },
+        { id: "b", nickname: "B" },
+      ],
+    });
+  });
+
+  it("only considers players still in the room", () => {
+    const { manager, recordRound } = createManager({});
+    recordRound({ a: 30, b: 25 });
+    expect(manager.resolveMatchEnd(["b"])).toEqual({
+      kind: "win",
+      winners: [{ id: "b", nickname: "B" }],
+    });
+  });
+
+  it("breaks ties by the number of goals", () => {
+    const { manager, recordRound } = createManager({ tieBreak: "mostGoals" });
+    recordRound({ a: 10, b: 0 }, ["a"]);
+    recordRound({ a: 10, b: 20 }, ["b"]);
+    recordRound({ a: 0, b: 0 }, ["a"]);
+
+    expect(manager.resolveMatchEnd(["a", "b"])).toEqual({
+      kind: "win",
+      winners: [{ id: "a", nickname: "A" }],
+      reason: "Tie broken by most goals",
+    });
+  });
+
+  it("shares the win when goals are also tied", () => {
+    const { manager, recordRound } = createManager({ tieBreak: "mostGoals" });
+    recordRound({ a: 20, b: 20 }, ["a", "b"]);
+
+    const outcome = manager.resolveMatchEnd(["a", "b"]);
+    expect(outcome?.kind).toBe("win");
+    expect(outcome?.kind === "win" && outcome.winners.map((w) => w.id)).toEqual(["a", "b"]);
+  });
+
+  it("plays sudden death rounds between the tied players only", () => {
+    const { manager, recordRound } = createManager({ tieBreak: "suddenDeath" });
+    recordRound({ a: 20, b: 20, c: 5 });
+
+    const outcome = manager.resolveMatchEnd(["a", "b", "c"]);
+    expect(outcome).toEqual({ kind: "suddenDeath", playerIds: ["a", "b"] });
+    manager.setSuddenDeath(["a", "b"]);
+
+    // c 在加赛中得分也不参与比较
+    recordRound({ a: 0, b: 5, c: 50 });
+    expect(manager.resolveMatchEnd(["a", "b", "c"])).toEqual({
+      kind: "win",
+      winners: [{ id: "b", nickname: "B" }],
+      reason: "Won in sudden death",
+    });
+    expect(manager.getSuddenDeath()).toBeNull();
+  });
+
+  it("shares the win after too many sudden death rounds", () => {
+    const { manager, recordRound } = createManager({ tieBreak: "suddenDeath" });
+    recordRound({ a: 20, b: 20 });
+
+    for (let i = 0; i < 3; i++) {
+      const outcome = manager.resolveMatchEnd(["a", "b"]);
+      expect(outcome?.kind).toBe("suddenDeath");
+      manager.setSuddenDeath(["a", "b"]);
+      recordRound({ a: 0, b: 0 });
+    }
+
+    const outcome = manager.resolveMatchEnd(["a", "b"]);
+    expect(outcome?.kind === "win" && outcome.winners.map((w) => w.id)).toEqual(["a", "b"]);
+  });
+
+  it("resets the sudden death count once a match is decided", () => {
+    const { manager, recordRound } = createManager({ tieBreak: "suddenDeath" });
+    recordRound({ a: 20, b: 20 });
+    for (let i = 0; i < 3; i++) {
+      manager.setSuddenDeath(["a", "b"]);
+      recordRound({ a: 0, b: 0 });
+      manager.resolveMatchEnd(["a", "b"]);
+    }
+
+    // 下一场比赛（未调用 resetAll）的并列仍然可以加赛
+    manager.getLedger().clear();
+    recordRound({ a: 20, b: 20 });
+    expect(manager.resolveMatchEnd(["a", "b"])?.kind).toBe("suddenDeath");
+  });
+});
@@ -1,4 +1,6 @@
 import { PlayerInfo } from "../network/Protocol";
+import { MatchRules, DEFAULT_MATCH_RULES } from "./MatchRules";
+import { ScoreLedger, RoundScore } from "./ScoreLedger";
 
 /**
  * 分数明细项
@@ -10,32 +12,56 @@ export interface ScoreBreakdown {
 }
 
 /**
- * 玩家分数结果
+ * 玩家分数结果（由 ScoreLedger 计算的某回合视图）
  */
 export interface PlayerScoreResult {
+  id: string;
   nickname: string;
   current: number;
   added: number;
   breakdown: ScoreBreakdown[];
+  goals: number; // 本场比赛到达终点的次数，用于决胜
 }
 
+/**
+ * 比赛结束判定：有赢家（多人时为共同获胜），或并列者需要加赛
+ */
+export type MatchOutcome =
+  | { kind: "win"; winners: { id: string; nickname: string }[]; reason?: string }
+  | { kind: "suddenDeath"; playerIds: string[] };
+
 /**
  * 分数管理器：管理游戏分数计算和统计
  */
 export class ScoreManager {
-  // 分数常量
-  public static readonly GOAL_POINTS = 15; // 终点得分
-  public static readonly SOLO_POINTS = 10; // 独行得分
-  public static readonly FIRST_POINTS = 5; // 第一得分
-  public static readonly TRAP_KILL_POINTS = 5; // 陷阱得分
-  public static readonly GOLD_COIN_POINTS = 8; // 金币得分
-  public static readonly GOAL_SCORE = 50; // 胜利所需总分
+  // 本场比赛的计分规则
+  private rules: MatchRules = { ...DEFAULT_MATCH_RULES };
+
+  // 决胜
+  private static readonly MAX_SUDDEN_DEATH_ROUNDS = 3; // 超过后并列者共同获胜
+  private suddenDeathIds: string[] | null = null; // 加赛中只比较这些玩家
+  private suddenDeathRounds: number = 0;
+
+  // 本场比赛每回合的得分记录
+  private ledger: ScoreLedger = new ScoreLedger();
 
   // 回合追踪
   private finishOrder: string[] = [];
   private trapKills: Map<string, number> = new Map();
   private goldCollectors: Set<string> = new Set(); // 收集了金币的玩家
 
+  public setRules(rules: MatchRules): void {
+    this.rules = { ...rules };
+  }
+
+  public getRules(): MatchRules {
+    return this.rules;
+  }
+
+  public getLedger(): ScoreLedger {
+    return this.ledger;
+  }
+
   /**
    * 记录玩家到达终点
    */
@@ -96,14 +122,14 @@ export class ScoreManager {
   }
 
   /**
-   * 计算所有玩家的分数
+   * 计算所有玩家本回合的分数，记入账本并返回本回合结果
    */
   public calculateScores(
     players: PlayerInfo[],
     _localPlayerId: string,
     getPlayerById: (id: string) => { hasWon?: boolean } | undefined
   ): PlayerScoreResult[] {
-    const results: PlayerScoreResult[] = [];
+    const entries: { id: string; nickname: string; score: RoundScore }[] = [];
 
     const winnersCount = this.finishOrder.length;
     const totalPlayers = players.length;
@@ -119,7 +145,7 @@ export class ScoreManager {
         if (reachedGoal && !allReachedGoal) {
           scoreBreakdown.push({
             type: "Goal",
-            points: ScoreManager.GOAL_POINTS,
+            points: this.rules.goalPoints,
             color: "#4CAF50",
           });
         }
@@ -128,7 +154,7 @@ export class ScoreManager {
         if (winnersCount === 1 && this.finishOrder[0] === p.id) {
           scoreBreakdown.push({
             type: "Solo",
-            points: ScoreManager.SOLO_POINTS,
+            points: this.rules.soloPoints,
             color: "#2196F3",
           });
         }
@@ -137,7 +163,7 @@ export class ScoreManager {
         if (winnersCount > 1 && this.finishOrder[0] === p.id) {
           scoreBreakdown.push({
             type: "First",
-            points: ScoreManager.FIRST_POINTS,
+            points: this.rules.firstPoints,
             color: "#FF9800",
           });
         }
@@ -147,7 +173,7 @@ export class ScoreManager {
         if (kills > 0) {
           scoreBreakdown.push({
             type: "Trap",
-            points: kills * ScoreManager.TRAP_KILL_POINTS,
+            points: kills * this.rules.trapKillPoints,
             color: "#E91E63",
           });
         }
@@ -156,37 +182,95 @@ export class ScoreManager {
         if (this.goldCollectors.has(p.id)) {
           scoreBreakdown.push({
             type: "Gold",
-            points: ScoreManager.GOLD_COIN_POINTS,
+            points: this.rules.goldCoinPoints,
             color: "#FFD700", // 金色
           });
         }
 
-        // 计算总新增分数
-        const added = scoreBreakdown.reduce((sum, s) => sum + s.points, 0);
-
-        // 更新总分
-        if (!(p as any).totalScore) (p as any).totalScore = 0;
-        (p as any).totalScore += added;
-
-        results.push({
+        entries.push({
+          id: p.id,
           nickname: p.nickname,
-          current: (p as any).totalScore,
-          added: added,
-          breakdown: scoreBreakdown,
+          score: { breakdown: scoreBreakdown, reachedGoal },
         });
       }
     });
 
-    return results;
+    this.ledger.recordRound(entries);
+    return this.ledger.getLatestResults();
+  }
+
+  /**
+   * 判定比赛是否结束：有人达到胜利分数或达到回合上限后，账本总分最高者获胜，并列时按规则决胜
+   * playerIds: 仍在房间中的玩家（包括本回合没有参与的），加赛回合结束后只比较加赛的玩家
+   */
+  public resolveMatchEnd(playerIds: string[]): MatchOutcome | null {
+    const standings = this.ledger
+      .getPlayers()
+      .filter((p) => playerIds.includes(p.id))
+      .map((p) => ({
+        ...p,
+        total: this.ledger.getTotal(p.id),
+        goals: this.ledger.getGoalCount(p.id),
+      }));
+
+    let candidates = standings;
+    let reason: string | undefined;
+    if (this.suddenDeathIds) {
+      const ids = this.suddenDeathIds;
+      candidates = standings.filter((s) => ids.includes(s.id));
+      // 加赛的玩家都离开了：回到所有玩家中比较
+      if (candidates.length === 0) candidates = standings;
+      reason = "Won in sudden death";
+    } else {
+      const reachedPoints = standings.some((s) => s.total >= this.rules.pointsToWin);
+      const reachedRoundLimit =
+        this.rules.roundLimit > 0 &&
+        this.ledger.getRoundCount() >= this.rules.roundLimit;
+      if (!reachedPoints && !reachedRoundLimit) return null;
+      if (!reachedPoints) reason = "Round limit reached";
+    }
+    if (candidates.length === 0) return null;
+
+    const topScore = Math.max(...candidates.map((s) => s.total));
+    let leaders = candidates.filter((s) => s.total === topScore);
+    if (leaders.length > 1) {
+      if (this.rules.tieBreak === "mostGoals") {
+        const mostGoals = Math.max(...leaders.map((s) => s.goals));
+        leaders = leaders.filter((s) => s.goals === mostGoals);
+        if (leaders.length === 1) reason = "Tie broken by most goals";
+      } else if (
+        this.rules.tieBreak === "suddenDeath" &&
+        this.suddenDeathRounds < ScoreManager.MAX_SUDDEN_DEATH_ROUNDS
+      ) {
+        return { kind: "suddenDeath", playerIds: leaders.map((s) => s.id) };
+      }
+      if (leaders.length > 1) reason = undefined;
+    }
+
+    // 比赛已结束，加赛状态不带入下一场
+    this.suddenDeathIds = null;
+    this.suddenDeathRounds = 0;
+    return {
+      kind: "win",
+      winners: leaders.map(({ id, nickname }) => ({ id, nickname })),
+      reason,
+    };
   }
 
   /**
-   * 检查是否有赢家
+   * 开始加赛回合（房主判定并列后，或客户端收到 START_GAME 时同步）
    */
-  public checkWinner(
-    scores: PlayerScoreResult[]
-  ): PlayerScoreResult | undefined {
-    return scores.find((s) => s.current >= ScoreManager.GOAL_SCORE);
+  public setSuddenDeath(playerIds: string[] | null): void {
+    if (playerIds && playerIds.length > 0) {
+      this.suddenDeathIds = [...playerIds];
+      this.suddenDeathRounds++;
+    } else {
+      this.suddenDeathIds = null;
+    }
+  }
+
+  public getSuddenDeath(): string[] | null {
+    return this.suddenDeathIds;
   }
 
   /**
@@ -201,10 +285,10 @@ export class ScoreManager {
   /**
    * 重置所有数据（新游戏）
    */
-  public resetAll(players: PlayerInfo[]): void {
+  public resetAll(): void {
     this.resetRound();
-    players.forEach((p) => {
-      (p as any).totalScore = 0;
-    });
+    this.ledger.clear();
+    this.suddenDeathIds = null;
+    this.suddenDeathRounds = 0;
   }
 }
@@ -1,6 +1,17 @@
 import { Game } from './core/Game';
+import { readNetworkConfig } from './network/NetworkConfig';
+import { createTransport } from './network/transports/createTransport';
+import {
+    SimulatedTransport,
+    readNetworkConditions,
+} from './network/transports/SimulatedTransport';
+import { NetworkSimulatorPanel } from './ui/components/NetworkSimulatorPanel';
 import './ui/style.css';
 
 window.addEventListener('DOMContentLoaded', () => {
-    new Game();
+    // 网络模拟：?netLatency=150&netJitter=50&netDrop=0.05，?netDebug 直接打开调试面板（F8 切换）
+    const transport = new SimulatedTransport(createTransport(), readNetworkConditions());
+    new NetworkSimulatorPanel(transport, new URLSearchParams(window.location.search).has('netDebug'));
+
+    new Game(transport, readNetworkConfig());
 });
@@ -0,0 +1,26 @@
+/**
+ * JSON 无法直接承载二进制快照，以 { $bin: base64 } 形式传输（WebSocket 中继和比赛录像共用）
+ */
+export function encodeBinary(_key: string, value: unknown): unknown {
+    if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+        const bytes = value instanceof ArrayBuffer
+            ? new Uint8Array(value)
+            : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+        let binary = '';
+        bytes.forEach(b => (binary += String.fromCharCode(b)));
+        return { $bin: btoa(binary) };
+    }
+    return value;
+}
+
+export function decodeBinary(_key: string, value: unknown): unknown {
+    if (value && typeof value === 'object' && typeof (value as { $bin?: unknown }).$bin === 'string') {
+        const binary = atob((value as { $bin: string }).$bin);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes.buffer;
+    }
+    return value;
+}
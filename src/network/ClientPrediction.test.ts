@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { ClientPrediction } from './ClientPrediction';
+import { MAX_INPUT_BATCH } from './Protocol';
+
+const input = { x: 1, y: 0, j: false, cam: 0 };
+
+describe('ClientPrediction', () => {
+    it('numbers inputs and keeps them until the host acknowledges them', () => {
+        const prediction = new ClientPrediction();
+        for (let i = 0; i < 3; i++) {
+            prediction.recordInput(input, new THREE.Vector3(i, 0, 0));
+        }
+        expect(prediction.getUnacknowledgedInputs().map(i => i.seq)).toEqual([1, 2, 3]);
+
+        prediction.reconcile(2, new THREE.Vector3(1, 0, 0));
+        expect(prediction.getUnacknowledgedInputs().map(i => i.seq)).toEqual([3]);
+    });
+
+    it('resends at most the newest MAX_INPUT_BATCH inputs', () => {
+        const prediction = new ClientPrediction();
+        for (let i = 0; i < MAX_INPUT_BATCH + 5; i++) {
+            prediction.recordInput(input, new THREE.Vector3());
+        }
+        const pending = prediction.getUnacknowledgedInputs();
+        expect(pending).toHaveLength(MAX_INPUT_BATCH);
+        expect(pending[pending.length - 1].seq).toBe(MAX_INPUT_BATCH + 5);
+    });
+
+    it('corrects by the error against the acknowledged prediction', () => {
+        const prediction = new ClientPrediction();
+        prediction.recordInput(input, new THREE.Vector3(0, 0, 0));
+
+        expect(prediction.reconcile(1, new THREE.Vector3(0.01, 0, 0))).toBeNull();
+
+        prediction.recordInput(input, new THREE.Vector3(0, 0, 0));
+        const snap = prediction.reconcile(2, new THREE.Vector3(5, 0, 0));
+        expect(snap?.x).toBeCloseTo(5);
+
+        prediction.recordInput(input, new THREE.Vector3(0, 0, 0));
+        const smoothed = prediction.reconcile(3, new THREE.Vector3(1, 0, 0));
+        expect(smoothed?.x).toBeCloseTo(0.2);
+    });
+
+    it('ignores acknowledgements for inputs it no longer has', () => {
+        const prediction = new ClientPrediction();
+        prediction.recordInput(input, new THREE.Vector3());
+        expect(prediction.reconcile(99, new THREE.Vector3(10, 0, 0))).toBeNull();
+        expect(prediction.getUnacknowledgedInputs()).toHaveLength(1);
+    });
+});
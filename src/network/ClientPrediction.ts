@@ -0,0 +1,65 @@
+import * as THREE from 'three';
+import { InputPayload, MAX_INPUT_BATCH } from './Protocol';
+
+// 保留的预测历史长度（约 2 秒 @60Hz）
+const MAX_HISTORY = 120;
+// 误差小于该值视为一致，不做修正（米）
+const CORRECTION_EPSILON = 0.05;
+// 误差超过该值直接瞬移，否则逐步收敛（米）
+const SNAP_DISTANCE = 2;
+const SMOOTHING = 0.2;
+
+/**
+ * 客户端预测：为每个输入编号并记录应用该输入时的本地位置，
+ * 收到房主确认（ack）后比较权威位置，计算需要施加的位置修正
+ */
+export class ClientPrediction {
+    private seq: number = 0;
+    private history: { seq: number; pos: THREE.Vector3; input: InputPayload }[] = [];
+
+    /**
+     * 为本次物理步进的输入分配序号并记录当前预测位置（序号 16 位回绕，跳过 0）
+     */
+    public recordInput(input: Omit<InputPayload, 'seq'>, position: THREE.Vector3): InputPayload {
+        this.seq = (this.seq % 0xffff) + 1;
+        const numbered = { ...input, seq: this.seq };
+        this.history.push({ seq: this.seq, pos: position.clone(), input: numbered });
+        if (this.history.length > MAX_HISTORY) {
+            this.history.shift();
+        }
+        return numbered;
+    }
+
+    /**
+     * 尚未被房主确认的输入（最多 MAX_INPUT_BATCH 个最新的），每次上报都重发，丢包由下一批补上
+     */
+    public getUnacknowledgedInputs(): InputPayload[] {
+        return this.history.slice(-MAX_INPUT_BATCH).map(entry => entry.input);
+    }
+
+    /**
+     * 根据房主确认的输入序号和权威位置计算修正量，无需修正时返回 null
+     */
+    public reconcile(ack: number, authoritative: THREE.Vector3): THREE.Vector3 | null {
+        const index = this.history.findIndex(entry => entry.seq === ack);
+        if (index === -1) return null;
+
+        const error = authoritative.clone().sub(this.history[index].pos);
+        // 已确认的历史不再需要
+        this.history.splice(0, index + 1);
+
+        const distance = error.length();
+        if (distance < CORRECTION_EPSILON) return null;
+        if (distance < SNAP_DISTANCE) {
+            error.multiplyScalar(SMOOTHING);
+        }
+
+        // 修正同样作用于尚未确认的预测，避免重复修正
+        this.history.forEach(entry => entry.pos.add(error));
+        return error;
+    }
+
+    public reset(): void {
+        this.history = [];
+    }
+}
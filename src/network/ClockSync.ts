@@ -0,0 +1,65 @@
+/**
+ * 一次 PING/PONG 往返的测量结果
+ */
+interface ClockSample {
+    rtt: number;    // 往返时间（ms）
+    offset: number; // 房主时钟 - 本地时钟（ms）
+}
+
+/**
+ * 客户端根据 PING/PONG 估算到房主的往返延迟和时钟偏移
+ * 偏移取最近几次中往返时间最短的一次（排队延迟最小，估计最准）
+ */
+export class ClockSync {
+    private static readonly MAX_SAMPLES = 8;
+    private static readonly RTT_SMOOTHING = 0.2;
+
+    private samples: ClockSample[] = [];
+    private smoothedRtt: number | null = null;
+
+    /**
+     * 记录一次往返：sentAt 为本地发出 PING 的时间，hostTime 为房主回复时的时间
+     */
+    public addSample(sentAt: number, hostTime: number, receivedAt: number): void {
+        const rtt = Math.max(0, receivedAt - sentAt);
+        // 假设上下行延迟对称
+        const offset = hostTime + rtt / 2 - receivedAt;
+
+        this.samples.push({ rtt, offset });
+        if (this.samples.length > ClockSync.MAX_SAMPLES) {
+            this.samples.shift();
+        }
+
+        this.smoothedRtt = this.smoothedRtt === null
+            ? rtt
+            : this.smoothedRtt + (rtt - this.smoothedRtt) * ClockSync.RTT_SMOOTHING;
+    }
+
+    public hasSamples(): boolean {
+        return this.samples.length > 0;
+    }
+
+    /**
+     * 平滑后的往返时间，尚未测量时为 null
+     */
+    public getRtt(): number | null {
+        return this.smoothedRtt === null ? null : Math.round(this.smoothedRtt);
+    }
+
+    public getOffset(): number {
+        if (this.samples.length === 0) return 0;
+        return this.samples.reduce((best, s) => (s.rtt < best.rtt ? s : best)).offset;
+    }
+
+    /**
+     * 本地时间换算为房主时间
+     */
+    public toHostTime(localTime: number): number {
+        return localTime + this.getOffset();
+    }
+
+    public reset(): void {
+        this.samples = [];
+        this.smoothedRtt = null;
+    }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+    PROTOCOL_VERSION,
+    SUPPORTED_FEATURES,
+    intersectFeatures,
+    negotiateJoin,
+} from './Handshake';
+
+describe('intersectFeatures', () => {
+    it('keeps only features every list supports, in local order', () => {
+        expect(intersectFeatures(['resync', 'binarySnapshots'], ['binarySnapshots', 'resync', 'hostAuthority']))
+            .toEqual(['binarySnapshots', 'resync']);
+    });
+
+    it('ignores feature names this client does not know', () => {
+        expect(intersectFeatures(['resync', 'teleport'])).toEqual(['resync']);
+    });
+
+    it('returns every supported feature when given no lists', () => {
+        expect(intersectFeatures()).toEqual(SUPPORTED_FEATURES);
+    });
+});
+
+describe('negotiateJoin', () => {
+    it('rejects clients that do not send a version', () => {
+        const result = negotiateJoin({ nickname: 'old' });
+        expect(result.ok).toBe(false);
+    });
+
+    it('rejects a different protocol version', () => {
+        const result = negotiateJoin({ nickname: 'a', version: PROTOCOL_VERSION + 1, features: SUPPORTED_FEATURES });
+        expect(result).toEqual({
+            ok: false,
+            reason: `Version mismatch: host runs protocol v${PROTOCOL_VERSION}, you run v${PROTOCOL_VERSION + 1}.`,
+        });
+    });
+
+    it('agrees on the features both sides support', () => {
+        const result = negotiateJoin(
+            { nickname: 'a', version: PROTOCOL_VERSION, features: ['resync', 'binarySnapshots'] },
+            ['binarySnapshots', 'hostAuthority']
+        );
+        expect(result).toEqual({ ok: true, features: ['binarySnapshots'] });
+    });
+
+    it('rejects clients missing a feature the running session requires', () => {
+        const result = negotiateJoin(
+            { nickname: 'a', version: PROTOCOL_VERSION, features: ['binarySnapshots'] },
+            SUPPORTED_FEATURES,
+            ['binarySnapshots', 'resync']
+        );
+        expect(result).toEqual({ ok: false, reason: 'Your client does not support: resync.' });
+    });
+});
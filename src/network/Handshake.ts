@@ -0,0 +1,81 @@
+import { JoinPayload, ProtocolFeature } from './Protocol';
+
+/**
+ * 协议版本：数据包格式或含义发生不兼容变化时递增，版本不同的客户端会被拒绝
+ */
+export const PROTOCOL_VERSION = 5;
+
+/**
+ * 本客户端支持的可选功能
+ */
+export const SUPPORTED_FEATURES: ProtocolFeature[] = [
+    'binarySnapshots',
+    'hostAuthority',
+    'resync',
+];
+
+const RECONNECT_TOKEN_KEY = 'reconnectToken';
+let reconnectToken: string | null = null;
+
+/**
+ * 本客户端的重连令牌：刷新页面后 Peer ID 会变，令牌保存在本标签页的 sessionStorage 中不变
+ * 只随 JOIN 发给房主，房主据此识别比赛中离开又重新加入的玩家（昵称可以被别人冒用）
+ */
+export function getReconnectToken(): string {
+    if (reconnectToken) return reconnectToken;
+    try {
+        reconnectToken = sessionStorage.getItem(RECONNECT_TOKEN_KEY);
+    } catch {
+        // 存储不可用时只在本次页面中有效
+    }
+    if (!reconnectToken) {
+        // crypto.randomUUID 只在安全上下文可用，局域网 http 下使用 getRandomValues
+        const bytes = crypto.getRandomValues(new Uint8Array(16));
+        reconnectToken = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+        try {
+            sessionStorage.setItem(RECONNECT_TOKEN_KEY, reconnectToken);
+        } catch {
+            // 同上
+        }
+    }
+    return reconnectToken;
+}
+
+export type HandshakeResult =
+    | { ok: true; features: ProtocolFeature[] }
+    | { ok: false; reason: string };
+
+/**
+ * 取多个功能列表的交集（忽略本地不认识的功能名）
+ */
+export function intersectFeatures(...lists: readonly string[][]): ProtocolFeature[] {
+    return SUPPORTED_FEATURES.filter(feature => lists.every(list => list.includes(feature)));
+}
+
+/**
+ * 房主检查 JOIN 的协议版本，并与客户端协商功能
+ * requiredFeatures: 当前会话已启用、新客户端必须支持的功能（例如比赛进行中）
+ */
+export function negotiateJoin(
+    join: JoinPayload,
+    hostFeatures: ProtocolFeature[] = SUPPORTED_FEATURES,
+    requiredFeatures: ProtocolFeature[] = []
+): HandshakeResult {
+    if (join.version === undefined) {
+        return { ok: false, reason: `The host runs protocol v${PROTOCOL_VERSION}, your client is outdated. Please reload.` };
+    }
+    if (join.version !== PROTOCOL_VERSION) {
+        return {
+            ok: false,
+            reason: `Version mismatch: host runs protocol v${PROTOCOL_VERSION}, you run v${join.version}.`,
+        };
+    }
+
+    const clientFeatures = join.features || [];
+    const missing = requiredFeatures.filter(feature => !clientFeatures.includes(feature));
+    if (missing.length > 0) {
+        return { ok: false, reason: `Your client does not support: ${missing.join(', ')}.` };
+    }
+
+    return { ok: true, features: intersectFeatures(hostFeatures, clientFeatures) };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { electHost } from './HostElection';
+import { PlayerInfo } from './Protocol';
+
+function player(id: string, isHost: boolean = false): PlayerInfo {
+    return { id, nickname: id, character: '', isHost, isReady: false };
+}
+
+describe('electHost', () => {
+    it('picks the earliest remaining player in lobby order', () => {
+        const players = [player('host', true), player('b'), player('a'), player('c')];
+        expect(electHost(players, 'host')?.id).toBe('b');
+    });
+
+    it('does not depend on where the departed host is in the list', () => {
+        const players = [player('b'), player('host', true), player('a')];
+        expect(electHost(players, 'host')?.id).toBe('b');
+    });
+
+    it('ignores host and ready flags that differ between clients', () => {
+        // 各客户端的副本中标志可能不同步，但玩家顺序一致
+        const hostView = [player('host', true), player('x'), player('y')];
+        const clientView = [player('host'), { ...player('x'), isReady: true }, player('y', true)];
+        expect(electHost(hostView, 'host')?.id).toBe('x');
+        expect(electHost(clientView, 'host')?.id).toBe('x');
+    });
+
+    it('returns undefined when nobody is left', () => {
+        expect(electHost([player('host', true)], 'host')).toBeUndefined();
+        expect(electHost([], 'host')).toBeUndefined();
+    });
+});
@@ -0,0 +1,9 @@
+import { PlayerInfo } from './Protocol';
+
+/**
+ * 房主离开后确定性地选出新房主：按大厅顺序（即加入顺序）取第一个剩余玩家。
+ * 所有客户端的大厅列表都来自房主的 LOBBY_UPDATE，因此各端结果一致
+ */
+export function electHost(players: PlayerInfo[], departedHostId: string): PlayerInfo | undefined {
+    return players.find(p => p.id !== departedHostId);
+}
@@ -0,0 +1,146 @@
+import { Packet, PacketType, PlayerInfo } from './Protocol';
+import { PROTOCOL_VERSION } from './Handshake';
+import { validatePacket } from './PacketValidator';
+import { encodeBinary, decodeBinary } from './BinaryJson';
+
+/**
+ * 录像中的一个数据包
+ */
+export interface RecordedPacket {
+    at: number;          // 距录制开始的毫秒数
+    dir: 'in' | 'out';
+    peer: string;        // in: 发送者；out: 接收者，广播为 ''
+    host: boolean;       // 录制者当时是否是房主（房主迁移后会变化）
+    packet: Packet;
+}
+
+/**
+ * 一场比赛的录像：录制者收发的所有数据包
+ */
+export interface MatchRecording {
+    version: number;         // 录制时的协议版本，不同版本的录像无法回放
+    recordedBy: string;
+    startedAt: number;       // 录制者本地时间（ms）
+    hostClockOffset: number; // 录制开始时 房主时钟 - 本地时钟（ms）
+    mapId: string;
+    seed: number;            // Party Box 物品种子
+    players: PlayerInfo[];
+    packets: RecordedPacket[];
+}
+
+export type MatchInfo = Pick<
+    MatchRecording,
+    'recordedBy' | 'hostClockOffset' | 'mapId' | 'seed' | 'players'
+>;
+
+/**
+ * 记录经过 NetworkManager 的数据包，用于回放和复现不同步问题
+ * 比赛开始时 begin，回到大厅/标题时 end（录像保留到下一场比赛开始，随时可以下载）
+ */
+export class MatchRecorder {
+    private recording: MatchRecording | null = null;
+    private active: boolean = false;
+
+    public begin(info: MatchInfo): void {
+        this.recording = {
+            version: PROTOCOL_VERSION,
+            startedAt: Date.now(),
+            ...structuredClone(info),
+            packets: [],
+        };
+        this.active = true;
+    }
+
+    public end(): void {
+        this.active = false;
+    }
+
+    public isRecording(): boolean {
+        return this.active;
+    }
+
+    public hasRecording(): boolean {
+        return this.recording !== null && this.recording.packets.length > 0;
+    }
+
+    /**
+     * 中途加入时地图在 RESYNC 中才确定
+     */
+    public setMapId(mapId: string): void {
+        if (this.recording && this.active) {
+            this.recording.mapId = mapId;
+        }
+    }
+
+    public record(dir: 'in' | 'out', packet: Packet, peer: string, host: boolean): void {
+        if (!this.recording || !this.active) return;
+        // 调用方之后可能修改载荷（例如 lobbyPlayers），记录时复制
+        const copy = structuredClone(packet);
+        // 重连令牌只给房主，不能出现在分享出去的录像中
+        if (copy.t === PacketType.JOIN) {
+            delete copy.p.reconnectToken;
+        }
+        this.recording.packets.push({
+            at: Date.now() - this.recording.startedAt,
+            dir,
+            peer,
+            host,
+            packet: copy,
+        });
+    }
+
+    /**
+     * 下载为 JSON 文件，没有录像时返回 false
+     */
+    public download(): boolean {
+        if (!this.recording || !this.hasRecording()) return false;
+
+        const text = JSON.stringify(this.recording, encodeBinary);
+        const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+        const date = new Date(this.recording.startedAt).toISOString().replace(/[:.]/g, '-');
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `match-${this.recording.mapId}-${date}.json`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+        return true;
+    }
+}
+
+/**
+ * 解析录像文件，格式或协议版本不符时返回 null，无效的数据包会被丢弃
+ */
+export function parseRecording(text: string): MatchRecording | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(text, decodeBinary);
+    } catch {
+        return null;
+    }
+
+    const recording = data as MatchRecording;
+    if (
+        !recording ||
+        typeof recording !== 'object' ||
+        recording.version !== PROTOCOL_VERSION ||
+        typeof recording.recordedBy !== 'string' ||
+        typeof recording.startedAt !== 'number' ||
+        typeof recording.hostClockOffset !== 'number' ||
+        typeof recording.mapId !== 'string' ||
+        typeof recording.seed !== 'number' ||
+        !Array.isArray(recording.players) ||
+        !Array.isArray(recording.packets)
+    ) {
+        return null;
+    }
+
+    recording.packets = recording.packets.filter(entry =>
+        entry &&
+        typeof entry.at === 'number' &&
+        (entry.dir === 'in' || entry.dir === 'out') &&
+        typeof entry.peer === 'string' &&
+        typeof entry.host === 'boolean' &&
+        validatePacket(entry.packet, 'replay') !== null
+    );
+    return recording;
+}
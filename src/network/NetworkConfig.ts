@@ -0,0 +1,52 @@
+import { MovementAuthority } from './Protocol';
+
+export type SnapshotFormat = 'binary' | 'json';
+
+/**
+ * 网络参数
+ */
+export interface NetworkConfig {
+    snapshotFormat: SnapshotFormat; // json 便于在控制台调试
+    snapshotRate: number;           // 每秒发送快照次数，与渲染帧率无关
+    interpolationDelay: number;     // 远程玩家渲染滞后（ms）
+    maxExtrapolation: number;       // 丢包时最多外推（ms）
+    authority: MovementAuthority;   // 仅房主的设置生效，随 START_GAME 下发
+}
+
+export const DEFAULT_NETWORK_CONFIG: NetworkConfig = {
+    snapshotFormat: 'binary',
+    snapshotRate: 30,
+    interpolationDelay: 100,
+    maxExtrapolation: 250,
+    authority: 'client',
+};
+
+/**
+ * 从 URL 参数读取网络参数，例如 ?snapshotFormat=json&snapshotRate=20&interpolationDelay=150
+ */
+export function readNetworkConfig(search: string = window.location.search): NetworkConfig {
+    const params = new URLSearchParams(search);
+    const config: NetworkConfig = { ...DEFAULT_NETWORK_CONFIG };
+
+    const format = params.get('snapshotFormat');
+    if (format === 'binary' || format === 'json') {
+        config.snapshotFormat = format;
+    }
+
+    const rate = Number(params.get('snapshotRate'));
+    if (Number.isFinite(rate) && rate > 0) {
+        config.snapshotRate = Math.min(rate, 60);
+    }
+
+    const delay = Number(params.get('interpolationDelay'));
+    if (Number.isFinite(delay) && delay >= 0) {
+        config.interpolationDelay = delay;
+    }
+
+    const authority = params.get('authority');
+    if (authority === 'client' || authority === 'host') {
+        config.authority = authority;
+    }
+
+    return config;
+}
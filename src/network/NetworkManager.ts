@@ -1,28 +1,69 @@
-import Peer, { DataConnection } from 'peerjs';
 import { Packet } from './Protocol';
+import { validatePacket } from './PacketValidator';
+import { generateRoomCode } from './RoomCode';
+import { MatchRecorder } from './MatchRecording';
+import { Transport } from './Transport';
+import { PeerTransport } from './transports/PeerTransport';
 
 export class NetworkManager {
-    private peer: Peer;
-    private connections: Map<string, DataConnection> = new Map();
+    private static readonly ROOM_CODE_ATTEMPTS = 5;
+
+    private transport: Transport;
     private isHost: boolean = false;
     private myId: string = '';
+
+    // 比赛录像：记录所有收发的数据包
+    public readonly recorder: MatchRecorder = new MatchRecorder();
     
     public onPacketReceived: (packet: Packet, senderId: string) => void = () => {};
-    public onPeerConnected: (conn: DataConnection) => void = () => {};
+    public onPeerConnected: (peerId: string) => void = () => {};
+    public onPeerDisconnected: (peerId: string) => void = () => {};
     public onIdAssigned: (id: string) => void = () => {};
 
-    constructor() {
-        this.peer = new Peer();
-        
-        this.peer.on('open', (id: string) => {
+    constructor(transport: Transport = new PeerTransport()) {
+        this.transport = transport;
+        this.attach(transport);
+    }
+
+    private attach(transport: Transport) {
+        this.transport = transport;
+        this.myId = transport.getId();
+
+        transport.onOpen = (id: string) => {
             this.myId = id;
             console.log('My Peer ID is: ' + id);
             this.onIdAssigned(id);
-        });
+        };
 
-        this.peer.on('connection', (conn: DataConnection) => {
-            this.handleConnection(conn);
-        });
+        transport.onPacket = (data: unknown, senderId: string) => {
+            const packet = validatePacket(data, senderId);
+            if (packet) {
+                this.onPacketReceived(packet, senderId);
+                // 处理之后再记录：比赛开始的数据包会先触发 recorder.begin
+                this.recorder.record('in', packet, senderId, this.isHost);
+            }
+        };
+
+        transport.onPeerConnected = (peerId: string) => {
+            this.onPeerConnected(peerId);
+        };
+
+        transport.onPeerDisconnected = (peerId: string) => {
+            this.onPeerDisconnected(peerId);
+        };
+    }
+
+    /**
+     * 切换传输层（例如进入/退出回放），旧传输的事件不再处理，返回旧传输
+     */
+    public setTransport(transport: Transport): Transport {
+        const previous = this.transport;
+        previous.onOpen = () => {};
+        previous.onPacket = () => {};
+        previous.onPeerConnected = () => {};
+        previous.onPeerDisconnected = () => {};
+        this.attach(transport);
+        return previous;
     }
 
     public getMyId(): string {
@@ -38,40 +79,48 @@ export class NetworkManager {
     }
 
     public connectToHost(hostId: string) {
-        const conn = this.peer.connect(hostId);
-        this.handleConnection(conn);
+        this.transport.connect(hostId);
+    }
+
+    public getPeerIds(): string[] {
+        return this.transport.getPeerIds();
+    }
+
+    public disconnect(peerId: string) {
+        this.transport.disconnect(peerId);
     }
 
-    private handleConnection(conn: DataConnection) {
-        conn.on('open', () => {
-            console.log('Connected to: ' + conn.peer);
-            this.connections.set(conn.peer, conn);
-            this.onPeerConnected(conn);
-        });
-
-        conn.on('data', (data: unknown) => {
-            this.onPacketReceived(data as Packet, conn.peer);
-        });
-
-        conn.on('close', () => {
-            console.log('Connection closed: ' + conn.peer);
-            this.connections.delete(conn.peer);
-        });
+    /**
+     * 为本房间注册一个房间号（优先使用 preferred，例如房主迁移后沿用原房间号），失败时返回 null
+     */
+    public async openRoom(preferred?: string): Promise<string | null> {
+        const candidates = preferred ? [preferred] : [];
+        while (candidates.length < NetworkManager.ROOM_CODE_ATTEMPTS) {
+            candidates.push(generateRoomCode());
+        }
+        for (const code of candidates) {
+            if (await this.transport.registerRoom(code)) {
+                return code;
+            }
+        }
+        return null;
+    }
+
+    public resolveRoom(code: string): Promise<string | null> {
+        return this.transport.resolveRoom(code);
+    }
+
+    public closeRoom() {
+        this.transport.releaseRoom();
     }
 
     public send(packet: Packet, targetId?: string) {
+        this.recorder.record('out', packet, targetId || '', this.isHost);
         if (targetId) {
-            const conn = this.connections.get(targetId);
-            if (conn && conn.open) {
-                conn.send(packet);
-            }
+            this.transport.send(packet, targetId);
         } else {
             // Broadcast
-            this.connections.forEach(conn => {
-                if (conn.open) {
-                    conn.send(packet);
-                }
-            });
+            this.transport.broadcast(packet);
         }
     }
 }
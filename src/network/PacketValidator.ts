@@ -0,0 +1,186 @@
+import { MAX_INPUT_BATCH, Packet, PacketType } from './Protocol';
+
+type Guard = (p: unknown) => boolean;
+
+const MAX_STRING_LENGTH = 256;
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+const isString = (v: unknown): v is string =>
+    typeof v === 'string' && v.length <= MAX_STRING_LENGTH;
+const isNumber = (v: unknown): v is number =>
+    typeof v === 'number' && Number.isFinite(v);
+const isBoolean = (v: unknown): v is boolean => typeof v === 'boolean';
+const isOptional = (guard: (v: unknown) => boolean) => (v: unknown) =>
+    v === undefined || guard(v);
+const isNullable = (guard: (v: unknown) => boolean) => (v: unknown) =>
+    v === null || v === undefined || guard(v);
+const isNumberArray = (length: number) => (v: unknown) =>
+    Array.isArray(v) && v.length === length && v.every(isNumber);
+const isArrayOf = (guard: (v: unknown) => boolean) => (v: unknown) =>
+    Array.isArray(v) && v.every(guard);
+const isBinary = (v: unknown) => v instanceof ArrayBuffer || ArrayBuffer.isView(v);
+const isStringMap = (v: unknown) =>
+    isObject(v) && Object.values(v).every(isString);
+const isNumberMap = (v: unknown) =>
+    isObject(v) && Object.values(v).every(isNumber);
+
+/**
+ * 按字段描述校验对象（多余字段忽略）
+ */
+const shape = (fields: { [key: string]: (v: unknown) => boolean }): Guard => (v) =>
+    isObject(v) && Object.keys(fields).every(key => fields[key](v[key]));
+
+const isIndex = (v: unknown) => isNumber(v) && Number.isInteger(v) && v >= 0;
+
+const isPlayerInfo = shape({
+    id: isString,
+    nickname: isString,
+    character: isString,
+    isHost: isBoolean,
+    isReady: isBoolean,
+    selectedMap: isOptional(isString),
+    joinsNextRound: isOptional(isBoolean),
+    spectator: isOptional(isBoolean),
+});
+
+const isEventPlace = shape({
+    itemId: isString,
+    pos: shape({ x: isNumber, y: isNumber, z: isNumber }),
+    rot: isNumber,
+    playerId: isString,
+});
+
+const isMatchRules = shape({
+    goalPoints: isNumber,
+    soloPoints: isNumber,
+    firstPoints: isNumber,
+    trapKillPoints: isNumber,
+    goldCoinPoints: isNumber,
+    pointsToWin: isNumber,
+    extraItems: isNumber,
+    roundLimit: isNumber,
+    buildTimeLimit: isNumber,
+    tieBreak: isString,
+});
+
+const isInput = shape({
+    x: isNumber,
+    y: isNumber,
+    j: isBoolean,
+    cam: isNumber,
+    s: isOptional(isBoolean),
+    seq: isNumber,
+});
+
+const isRoundScore = shape({
+    breakdown: isArrayOf(shape({ type: isString, points: isNumber, color: isString })),
+    reachedGoal: isBoolean,
+});
+
+const isScoreLedger = shape({
+    players: isArrayOf(shape({ id: isString, nickname: isString })),
+    rounds: isArrayOf(v => isObject(v) && Object.values(v).every(isRoundScore)),
+});
+
+const PAYLOAD_GUARDS: { [K in PacketType]: Guard } = {
+    [PacketType.INPUT]: shape({
+        inputs: v => isArrayOf(isInput)(v) && (v as unknown[]).length <= MAX_INPUT_BATCH,
+    }),
+    [PacketType.SNAPSHOT]: shape({
+        id: isString,
+        pos: isNumberArray(3),
+        rot: isNumberArray(4),
+        anim: isString,
+        seq: isOptional(isNumber),
+        ack: isOptional(isNumber),
+    }),
+    [PacketType.SNAPSHOT_BINARY]: isBinary,
+    [PacketType.EVENT_PLACE]: isEventPlace,
+    [PacketType.EVENT_STATE]: shape({ state: isNumber, at: isOptional(isNumber) }),
+    [PacketType.JOIN]: shape({
+        nickname: isString,
+        version: isOptional(isNumber),
+        features: isOptional(isArrayOf(isString)),
+        spectator: isOptional(isBoolean),
+        reconnectToken: isOptional(isString),
+    }),
+    [PacketType.WELCOME]: shape({
+        players: isArrayOf(isPlayerInfo),
+        state: isNumber,
+        mapVotes: isStringMap,
+        version: isOptional(isNumber),
+        features: isOptional(isArrayOf(isString)),
+        roomCode: isOptional(isString),
+    }),
+    [PacketType.CHARACTER_SELECT]: shape({ charId: isString }),
+    [PacketType.NICKNAME_CHANGE]: shape({ nickname: isString }),
+    [PacketType.LOBBY_UPDATE]: isArrayOf(isPlayerInfo),
+    [PacketType.START_GAME]: shape({
+        authority: isOptional(v => v === 'client' || v === 'host'),
+        features: isOptional(isArrayOf(isString)),
+        seed: isOptional(isNumber),
+        rules: isOptional(isMatchRules),
+        suddenDeath: isOptional(isArrayOf(isString)),
+    }),
+    [PacketType.PARTY_BOX_UPDATE]: isArrayOf(shape({
+        id: isString,
+        pos: isNumberArray(3),
+        rot: isNumber,
+    })),
+    [PacketType.PICK_ITEM]: shape({ index: isIndex }),
+    [PacketType.ITEM_PICKED]: shape({ index: isIndex, playerId: isString }),
+    [PacketType.PLAYER_FINISHED_RUN]: shape({ won: isBoolean, killedBy: isNullable(isString) }),
+    [PacketType.SHOW_SCORE]: shape({ ledger: isScoreLedger }),
+    [PacketType.CHAT]: shape({
+        nickname: isString,
+        message: isString,
+        color: isOptional(isString),
+        playerId: isOptional(isString),
+    }),
+    [PacketType.GAME_WIN]: shape({
+        winners: isArrayOf(shape({ nickname: isString, character: isString })),
+        reason: isOptional(isString),
+    }),
+    [PacketType.MAP_SELECT]: shape({ playerId: isString, mapId: isString }),
+    [PacketType.MAP_VOTES]: shape({ votes: isStringMap }),
+    [PacketType.MAP_CHOSEN]: shape({ mapId: isString }),
+    [PacketType.PLAYER_LEFT]: shape({ playerId: isString }),
+    [PacketType.RESYNC]: shape({
+        mapId: isString,
+        placedItems: isArrayOf(isArrayOf(isEventPlace)),
+        scores: isScoreLedger,
+        round: isNumber,
+        state: isNumber,
+        finishedTurn: isArrayOf(isString),
+        countdownStartedAt: isOptional(isNumber),
+        seed: isOptional(isNumber),
+        rules: isOptional(isMatchRules),
+    }),
+    [PacketType.JOIN_REJECTED]: shape({ reason: isString }),
+    [PacketType.PING]: shape({ sentAt: isNumber, rtt: isOptional(isNumber) }),
+    [PacketType.PONG]: shape({ sentAt: isNumber, hostTime: isNumber }),
+    [PacketType.PLAYER_PINGS]: shape({ pings: isNumberMap }),
+    [PacketType.PLACE_REJECTED]: shape({ reason: isString }),
+    [PacketType.SPECTATE]: shape({ spectator: isBoolean }),
+    [PacketType.KICKED]: shape({ reason: isString }),
+    [PacketType.TURN_FORFEIT]: shape({ playerIds: isArrayOf(isString) }),
+};
+
+const isPacketType = (t: unknown): t is PacketType =>
+    typeof t === 'string' && Object.prototype.hasOwnProperty.call(PAYLOAD_GUARDS, t);
+
+/**
+ * 校验收到的原始数据，合法时返回 Packet，否则记录日志并返回 null
+ */
+export function validatePacket(data: unknown, senderId: string): Packet | null {
+    if (!isObject(data) || !isPacketType(data.t)) {
+        console.warn('Dropped unknown packet from ' + senderId, data);
+        return null;
+    }
+    if (!isOptional(isNumber)(data.Ts) || !PAYLOAD_GUARDS[data.t](data.p)) {
+        console.warn('Dropped malformed ' + data.t + ' packet from ' + senderId, data);
+        return null;
+    }
+    return data as unknown as Packet;
+}
@@ -1,12 +1,11 @@
-export interface Packet {
-    t: string; // Type
-    p: any;    // Payload
-    Ts?: number; // Timestamp
-}
+import type { PartyBoxItemData } from '../core/PartyBoxManager';
+import type { ScoreLedgerData } from '../core/ScoreLedger';
+import type { MatchRules } from '../core/MatchRules';
 
 export enum PacketType {
     INPUT = 'I',
     SNAPSHOT = 'S',
+    SNAPSHOT_BINARY = 'Sb',     // SnapshotCodec 编码的快照
     EVENT_PLACE = 'E_Place',
     EVENT_STATE = 'E_State',
     JOIN = 'J',
@@ -24,7 +23,147 @@ export enum PacketType {
     GAME_WIN = 'Win',
     MAP_SELECT = 'M_Sel',       // Player selects map
     MAP_VOTES = 'M_Votes',      // Broadcast all map votes
-    MAP_CHOSEN = 'M_Chosen'     // Final chosen map
+    MAP_CHOSEN = 'M_Chosen',    // Final chosen map
+    PLAYER_LEFT = 'Left',       // 玩家断开连接（房主广播）
+    RESYNC = 'Resync',          // 比赛进行中加入：完整状态同步
+    JOIN_REJECTED = 'J_Rej',    // 房主拒绝加入（版本不兼容等）
+    PING = 'Ping',              // 客户端 -> 房主：测量延迟
+    PONG = 'Pong',              // 房主 -> 客户端：回复房主时间
+    PLAYER_PINGS = 'Pings',     // 房主广播所有玩家的延迟
+    PLACE_REJECTED = 'P_Rej',   // 房主拒绝放置（未选该物品、已放置或位置无效）
+    SPECTATE = 'Spec',          // 客户端 -> 房主：切换观战/参赛（仅大厅）
+    KICKED = 'Kick',            // 房主 -> 客户端：被踢出或封禁
+    TURN_FORFEIT = 'Forfeit'    // 房主广播：放置时限已到，这些玩家本回合不再放置
+}
+
+/**
+ * 可选功能：房主与客户端都支持时才在本场会话中启用
+ */
+export type ProtocolFeature = 'binarySnapshots' | 'hostAuthority' | 'resync';
+
+export interface JoinPayload {
+    nickname: string;
+    version?: number;   // 旧版本客户端不携带，视为不兼容
+    features?: string[];
+    spectator?: boolean; // 只观战
+    reconnectToken?: string; // 只有房主知道，比赛中离开后重新加入时据此恢复分数
+}
+
+export interface WelcomePayload {
+    players: PlayerInfo[];
+    state: number; // GameState
+    mapVotes: { [playerId: string]: string };
+    version?: number;
+    features?: ProtocolFeature[]; // 与该客户端协商后的功能
+    roomCode?: string; // 房主迁移后新房主沿用
+}
+
+export interface JoinRejectedPayload {
+    reason: string;
+}
+
+export interface EventStatePayload {
+    state: number; // GameState
+    at?: number;   // 该状态在房主时钟上开始的时间（Date.now()）
+}
+
+export interface PlaceRejectedPayload {
+    reason: string;
+}
+
+export interface SpectatePayload {
+    spectator: boolean;
+}
+
+export interface KickedPayload {
+    reason: string;
+}
+
+export interface TurnForfeitPayload {
+    playerIds: string[];
+}
+
+export interface PingPayload {
+    sentAt: number; // 客户端本地时间
+    rtt?: number;   // 客户端上一次测得的往返时间，供房主汇总
+}
+
+export interface PongPayload {
+    sentAt: number;   // 原样返回
+    hostTime: number; // 房主回复时的时间
+}
+
+export interface PlayerPingsPayload {
+    pings: { [playerId: string]: number };
+}
+
+export interface CharacterSelectPayload {
+    charId: string;
+}
+
+export interface NicknameChangePayload {
+    nickname: string;
+}
+
+export type MovementAuthority = 'client' | 'host';
+
+export interface StartGamePayload {
+    authority?: MovementAuthority; // host: 房主权威移动 + 客户端预测
+    features?: ProtocolFeature[];  // 本场比赛所有玩家都支持的功能
+    seed?: number;                 // Party Box 物品种子，写入录像
+    rules?: MatchRules;            // 本场比赛规则，缺省时使用默认规则
+    suddenDeath?: string[];        // 加赛回合：只比较这些并列玩家的总分
+}
+
+export interface PickItemPayload {
+    index: number;
+}
+
+export interface ItemPickedPayload {
+    index: number;
+    playerId: string;
+}
+
+export interface EventPlacePayload {
+    itemId: string;
+    pos: { x: number; y: number; z: number };
+    rot: number;
+    playerId: string;
+}
+
+export interface PlayerFinishedRunPayload {
+    won: boolean;
+    killedBy: string | null;
+}
+
+export interface ShowScorePayload {
+    ledger: ScoreLedgerData; // 完整账本，本回合结果取最后一个回合
+}
+
+export interface GameWinner {
+    nickname: string;
+    character: string;
+}
+
+export interface GameWinPayload {
+    winners: GameWinner[]; // 多人时为共同获胜
+    reason?: string;       // 决胜方式等说明，例如 "Tie broken by most goals"
+}
+
+export interface PlayerLeftPayload {
+    playerId: string;
+}
+
+export interface ResyncPayload {
+    mapId: string;
+    placedItems: EventPlacePayload[][]; // 按回合分组、按放置顺序，playerId 为物品所有者
+    scores: ScoreLedgerData;
+    round: number;
+    state: number; // GameState
+    finishedTurn: string[]; // 本阶段已完成的玩家
+    countdownStartedAt?: number; // 房主时钟，用于同步回合时钟
+    seed?: number;
+    rules?: MatchRules;
 }
 
 export interface ChatPayload {
@@ -52,6 +191,18 @@ export interface InputPayload {
     y: number;
     j: boolean;
     cam: number; // Camera angle Y
+    s?: boolean; // Sprint
+    seq: number; // 输入序号，房主在快照中以 ack 确认
+}
+
+// 每批最多携带的输入数（客户端帧率很高时更早的未确认输入不再重发）
+export const MAX_INPUT_BATCH = 16;
+
+/**
+ * 房主权威模式：客户端按固定频率成批上报尚未确认的输入，每个输入对应客户端的一次物理步进
+ */
+export interface InputBatchPayload {
+    inputs: InputPayload[]; // 按序号递增
 }
 
 export interface SnapshotPayload {
@@ -59,6 +210,8 @@ export interface SnapshotPayload {
     pos: number[];
     rot: number[];
     anim: string; // Animation state
+    seq?: number; // 序号（16 位回绕），用于丢弃乱序快照
+    ack?: number; // 房主权威模式：该玩家最后一个已应用的输入序号
 }
 
 export interface PlayerInfo {
@@ -68,4 +221,54 @@ export interface PlayerInfo {
     isHost: boolean;
     isReady: boolean;
     selectedMap?: string; // Player's selected map
+    joinsNextRound?: boolean; // 比赛中途加入，本回合观战
+    spectator?: boolean; // 观战者：不参与选物品、放置和跑图，不计分
 }
+
+/**
+ * PacketType -> 载荷类型
+ */
+export interface PacketPayloads {
+    [PacketType.INPUT]: InputBatchPayload;
+    [PacketType.SNAPSHOT]: SnapshotPayload;
+    [PacketType.SNAPSHOT_BINARY]: ArrayBuffer | ArrayBufferView;
+    [PacketType.EVENT_PLACE]: EventPlacePayload;
+    [PacketType.EVENT_STATE]: EventStatePayload;
+    [PacketType.JOIN]: JoinPayload;
+    [PacketType.WELCOME]: WelcomePayload;
+    [PacketType.CHARACTER_SELECT]: CharacterSelectPayload;
+    [PacketType.NICKNAME_CHANGE]: NicknameChangePayload;
+    [PacketType.LOBBY_UPDATE]: PlayerInfo[];
+    [PacketType.START_GAME]: StartGamePayload;
+    [PacketType.PARTY_BOX_UPDATE]: PartyBoxItemData[];
+    [PacketType.PICK_ITEM]: PickItemPayload;
+    [PacketType.ITEM_PICKED]: ItemPickedPayload;
+    [PacketType.PLAYER_FINISHED_RUN]: PlayerFinishedRunPayload;
+    [PacketType.SHOW_SCORE]: ShowScorePayload;
+    [PacketType.CHAT]: ChatPayload;
+    [PacketType.GAME_WIN]: GameWinPayload;
+    [PacketType.MAP_SELECT]: MapSelectPayload;
+    [PacketType.MAP_VOTES]: MapVotesPayload;
+    [PacketType.MAP_CHOSEN]: MapChosenPayload;
+    [PacketType.PLAYER_LEFT]: PlayerLeftPayload;
+    [PacketType.RESYNC]: ResyncPayload;
+    [PacketType.JOIN_REJECTED]: JoinRejectedPayload;
+    [PacketType.PING]: PingPayload;
+    [PacketType.PONG]: PongPayload;
+    [PacketType.PLAYER_PINGS]: PlayerPingsPayload;
+    [PacketType.PLACE_REJECTED]: PlaceRejectedPayload;
+    [PacketType.SPECTATE]: SpectatePayload;
+    [PacketType.KICKED]: KickedPayload;
+    [PacketType.TURN_FORFEIT]: TurnForfeitPayload;
+}
+
+/**
+ * 数据包：按 t 区分的联合类型，Packet<PacketType.X> 为单一类型的数据包
+ */
+export type Packet<T extends PacketType = PacketType> = {
+    [K in T]: {
+        t: K;             // Type
+        p: PacketPayloads[K]; // Payload
+        Ts?: number;      // Timestamp
+    };
+}[T];
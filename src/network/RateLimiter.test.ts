@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from './RateLimiter';
+
+describe('RateLimiter', () => {
+    it('allows a burst up to the bucket capacity', () => {
+        const limiter = new RateLimiter();
+        for (let i = 0; i < 5; i++) {
+            expect(limiter.allow('a', 'chat', 0)).toBe(true);
+        }
+        expect(limiter.allow('a', 'chat', 0)).toBe(false);
+    });
+
+    it('refills tokens over time without exceeding the capacity', () => {
+        const limiter = new RateLimiter();
+        // pick: 容量 3，每秒恢复 2 次
+        for (let i = 0; i < 3; i++) limiter.allow('a', 'pick', 0);
+        expect(limiter.allow('a', 'pick', 0)).toBe(false);
+
+        expect(limiter.allow('a', 'pick', 499)).toBe(false);
+        expect(limiter.allow('a', 'pick', 1000)).toBe(true);
+
+        // 长时间空闲后最多恢复到容量
+        const allowed = [0, 1, 2, 3].map(() => limiter.allow('a', 'pick', 60000));
+        expect(allowed).toEqual([true, true, true, false]);
+    });
+
+    it('limits each sender and action separately', () => {
+        const limiter = new RateLimiter();
+        for (let i = 0; i < 2; i++) limiter.allow('a', 'nickname', 0);
+        expect(limiter.allow('a', 'nickname', 0)).toBe(false);
+        expect(limiter.allow('b', 'nickname', 0)).toBe(true);
+        expect(limiter.allow('a', 'chat', 0)).toBe(true);
+    });
+
+    it('mutes chat after repeated rejections and lifts it later', () => {
+        const limiter = new RateLimiter();
+        const muted: [string, number][] = [];
+        limiter.onMuted = (senderId, durationMs) => muted.push([senderId, durationMs]);
+
+        for (let i = 0; i < 5; i++) limiter.allow('a', 'chat', 0);
+        for (let i = 0; i < 5; i++) limiter.allow('a', 'chat', 100);
+
+        expect(muted).toEqual([['a', 30000]]);
+        expect(limiter.isMuted('a', 1000)).toBe(true);
+        // 禁言期间即使令牌已恢复也不能聊天，其他操作不受影响
+        expect(limiter.allow('a', 'chat', 20000)).toBe(false);
+        expect(limiter.allow('a', 'pick', 20000)).toBe(true);
+
+        expect(limiter.isMuted('a', 30100)).toBe(false);
+        expect(limiter.allow('a', 'chat', 30100)).toBe(true);
+    });
+
+    it('does not count rejections outside the strike window', () => {
+        const limiter = new RateLimiter();
+        let mutes = 0;
+        limiter.onMuted = () => mutes++;
+
+        // nickname: 容量 2，每 10 秒恢复 1 次；先被拒绝 4 次
+        for (let i = 0; i < 6; i++) limiter.allow('a', 'nickname', 0);
+        expect(mutes).toBe(0);
+
+        // 10 秒后之前的拒绝已过期，需要重新累计 5 次
+        expect(limiter.allow('a', 'nickname', 10001)).toBe(true);
+        for (let i = 0; i < 4; i++) limiter.allow('a', 'nickname', 10001);
+        expect(mutes).toBe(0);
+        limiter.allow('a', 'nickname', 10001);
+        expect(mutes).toBe(1);
+    });
+
+    it('forgets a removed sender', () => {
+        const limiter = new RateLimiter();
+        for (let i = 0; i < 10; i++) limiter.allow('a', 'chat', 0);
+        expect(limiter.isMuted('a', 0)).toBe(true);
+
+        limiter.removeSender('a');
+        expect(limiter.isMuted('a', 0)).toBe(false);
+        expect(limiter.allow('a', 'chat', 0)).toBe(true);
+    });
+});
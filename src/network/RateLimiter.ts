@@ -0,0 +1,110 @@
+/**
+ * 房主对客户端请求限流的操作类型
+ */
+export type RateLimitedAction = 'chat' | 'pick' | 'mapVote' | 'nickname';
+
+interface BucketConfig {
+    capacity: number;        // 最多可连续执行的次数
+    refillPerSecond: number; // 每秒恢复的次数
+}
+
+const RATE_LIMITS: Record<RateLimitedAction, BucketConfig> = {
+    chat: { capacity: 5, refillPerSecond: 1 },
+    pick: { capacity: 3, refillPerSecond: 2 },
+    mapVote: { capacity: 4, refillPerSecond: 0.5 },
+    nickname: { capacity: 2, refillPerSecond: 0.1 },
+};
+
+/**
+ * 令牌桶：每次操作消耗一个令牌，令牌按固定速率恢复
+ */
+class TokenBucket {
+    private tokens: number;
+    private updatedAt: number;
+
+    constructor(private config: BucketConfig, now: number) {
+        this.tokens = config.capacity;
+        this.updatedAt = now;
+    }
+
+    public take(now: number): boolean {
+        const elapsed = Math.max(0, now - this.updatedAt) / 1000;
+        this.tokens = Math.min(this.config.capacity, this.tokens + elapsed * this.config.refillPerSecond);
+        this.updatedAt = now;
+
+        if (this.tokens < 1) return false;
+        this.tokens -= 1;
+        return true;
+    }
+}
+
+/**
+ * 房主按发送者限流；短时间内被拒绝次数过多的发送者会被临时禁言
+ */
+export class RateLimiter {
+    private static readonly STRIKE_WINDOW = 10000;
+    private static readonly MUTE_STRIKES = 5;
+    private static readonly MUTE_DURATION = 30000;
+
+    private buckets: Map<string, TokenBucket> = new Map();
+    private strikes: Map<string, number[]> = new Map(); // 被拒绝的时间
+    private mutedUntil: Map<string, number> = new Map();
+
+    public onMuted: (senderId: string, durationMs: number) => void = () => {};
+
+    /**
+     * 允许时消耗一次额度并返回 true；被禁言的发送者不能聊天
+     */
+    public allow(senderId: string, action: RateLimitedAction, now: number = Date.now()): boolean {
+        if (action === 'chat' && this.isMuted(senderId, now)) return false;
+
+        const key = senderId + ':' + action;
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = new TokenBucket(RATE_LIMITS[action], now);
+            this.buckets.set(key, bucket);
+        }
+
+        if (bucket.take(now)) return true;
+        this.addStrike(senderId, now);
+        return false;
+    }
+
+    public isMuted(senderId: string, now: number = Date.now()): boolean {
+        const until = this.mutedUntil.get(senderId);
+        if (until === undefined) return false;
+        if (now < until) return true;
+        this.mutedUntil.delete(senderId);
+        return false;
+    }
+
+    private addStrike(senderId: string, now: number) {
+        const recent = (this.strikes.get(senderId) || []).filter(
+            at => now - at < RateLimiter.STRIKE_WINDOW
+        );
+        recent.push(now);
+
+        if (recent.length >= RateLimiter.MUTE_STRIKES && !this.isMuted(senderId, now)) {
+            this.strikes.delete(senderId);
+            this.mutedUntil.set(senderId, now + RateLimiter.MUTE_DURATION);
+            this.onMuted(senderId, RateLimiter.MUTE_DURATION);
+            return;
+        }
+        this.strikes.set(senderId, recent);
+    }
+
+    public removeSender(senderId: string) {
+        const prefix = senderId + ':';
+        Array.from(this.buckets.keys())
+            .filter(key => key.startsWith(prefix))
+            .forEach(key => this.buckets.delete(key));
+        this.strikes.delete(senderId);
+        this.mutedUntil.delete(senderId);
+    }
+
+    public reset() {
+        this.buckets.clear();
+        this.strikes.clear();
+        this.mutedUntil.clear();
+    }
+}
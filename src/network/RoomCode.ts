@@ -0,0 +1,56 @@
+/**
+ * 房间号：房主注册到信令层的短代码，玩家输入房间号即可加入，无需复制完整的 Peer ID
+ */
+export const ROOM_CODE_LENGTH = 5;
+
+// 去掉容易看错的字母（I/O）
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+const ROOM_CODE_PARAM = 'room';
+
+export function generateRoomCode(): string {
+    let code = '';
+    for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+        code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+    }
+    return code;
+}
+
+/**
+ * 规范化玩家输入的房间号（忽略大小写、空格和连字符），无效时返回 null
+ */
+export function normalizeRoomCode(input: string): string | null {
+    const code = input.toUpperCase().replace(/[\s-]/g, '');
+    if (code.length !== ROOM_CODE_LENGTH) return null;
+    for (const char of code) {
+        if (!ROOM_CODE_ALPHABET.includes(char)) return null;
+    }
+    return code;
+}
+
+/**
+ * 从 URL 参数读取房间号，例如 ?room=ABCDE
+ */
+export function readRoomCode(search: string = window.location.search): string | null {
+    const code = new URLSearchParams(search).get(ROOM_CODE_PARAM);
+    return code ? normalizeRoomCode(code) : null;
+}
+
+/**
+ * 可分享的加入链接（保留当前的 relay/transport 等参数）
+ */
+export function buildRoomUrl(code: string): string {
+    const url = new URL(window.location.href);
+    url.searchParams.set(ROOM_CODE_PARAM, code);
+    return url.toString();
+}
+
+/**
+ * 自动加入后从地址栏移除房间号，回到标题画面时不会重复加入
+ */
+export function clearRoomCodeFromUrl(): void {
+    const url = new URL(window.location.href);
+    if (!url.searchParams.has(ROOM_CODE_PARAM)) return;
+    url.searchParams.delete(ROOM_CODE_PARAM);
+    window.history.replaceState(null, '', url.toString());
+}
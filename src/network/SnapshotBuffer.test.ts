@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { SnapshotBuffer } from './SnapshotBuffer';
+import { SnapshotPayload } from './Protocol';
+
+function snapshot(x: number, anim: string = 'run'): SnapshotPayload {
+    return { id: 'remote', pos: [x, 0, 0], rot: [0, 0, 0, 1], anim };
+}
+
+describe('SnapshotBuffer', () => {
+    // 延迟 100ms 渲染，最多外推 200ms；发送方时钟比本地慢 1000ms
+    const createBuffer = () => {
+        const buffer = new SnapshotBuffer(100, 200);
+        buffer.push(snapshot(0, 'idle'), 0, 1000);
+        buffer.push(snapshot(10), 100, 1100);
+        return buffer;
+    };
+
+    it('returns null before any snapshot arrives', () => {
+        expect(new SnapshotBuffer(100, 200).sample(0)).toBeNull();
+    });
+
+    it('interpolates between the two snapshots around the render time', () => {
+        const state = createBuffer().sample(1150)!;
+        expect(state.pos.x).toBeCloseTo(5);
+        expect(state.velocity.x).toBeCloseTo(100);
+        expect(state.anim).toBe('run');
+    });
+
+    it('holds the first snapshot until the render time reaches it', () => {
+        const state = createBuffer().sample(1050)!;
+        expect(state.pos.x).toBe(0);
+        expect(state.velocity.x).toBe(0);
+        expect(state.anim).toBe('idle');
+    });
+
+    it('extrapolates briefly after the last snapshot and then stops', () => {
+        const buffer = createBuffer();
+        expect(buffer.sample(1250)!.pos.x).toBeCloseTo(15);
+
+        const stopped = buffer.sample(1600)!;
+        expect(stopped.pos.x).toBeCloseTo(30);
+        expect(stopped.velocity.x).toBe(0);
+    });
+
+    it('orders snapshots that arrive out of order', () => {
+        const buffer = new SnapshotBuffer(100, 200);
+        buffer.push(snapshot(0), 0, 1000);
+        buffer.push(snapshot(20), 200, 1200);
+        buffer.push(snapshot(10), 100, 1210);
+
+        expect(buffer.sample(1250)!.pos.x).toBeCloseTo(15, 1);
+    });
+
+    it('uses the smallest observed clock offset', () => {
+        const buffer = new SnapshotBuffer(0, 0);
+        // 第一个包延迟了 50ms
+        buffer.push(snapshot(0), 0, 1050);
+        buffer.push(snapshot(10), 100, 1100);
+
+        expect(buffer.sample(1100)!.pos.x).toBeCloseTo(10);
+    });
+
+    it('forgets snapshots and the clock offset when cleared', () => {
+        const buffer = createBuffer();
+        buffer.clear();
+        expect(buffer.sample(1150)).toBeNull();
+    });
+});
@@ -0,0 +1,127 @@
+import * as THREE from 'three';
+import { SnapshotPayload } from './Protocol';
+
+interface TimedSnapshot {
+    time: number; // 发送方时钟（ms）
+    pos: THREE.Vector3;
+    rot: THREE.Quaternion;
+    anim: string;
+}
+
+/**
+ * 插值采样结果
+ */
+export interface InterpolatedState {
+    pos: THREE.Vector3;
+    rot: THREE.Quaternion;
+    velocity: THREE.Vector3; // 单位：米/秒
+    anim: string;
+}
+
+// 缓冲区最多保留的快照数量
+const MAX_SNAPSHOTS = 32;
+// 每收到一个快照，时钟偏移估计允许回升的量（ms），用于跟随时钟漂移和网络变慢
+const OFFSET_RELAX = 0.05;
+
+/**
+ * 远程玩家快照缓冲：以略微滞后的时间渲染，在两个带时间戳的快照之间插值，丢包时短暂外推
+ */
+export class SnapshotBuffer {
+    private snapshots: TimedSnapshot[] = [];
+    private clockOffset: number | null = null; // 本地时间 - 发送方时间 的最小观测值
+    private interpolationDelay: number;
+    private maxExtrapolation: number;
+
+    private readonly state: InterpolatedState = {
+        pos: new THREE.Vector3(),
+        rot: new THREE.Quaternion(),
+        velocity: new THREE.Vector3(),
+        anim: 'idle',
+    };
+
+    constructor(interpolationDelay: number, maxExtrapolation: number) {
+        this.interpolationDelay = interpolationDelay;
+        this.maxExtrapolation = maxExtrapolation;
+    }
+
+    /**
+     * 加入快照；remoteTime 为发送方时间戳（Packet.Ts），缺失时按收到时间处理
+     */
+    public push(snapshot: SnapshotPayload, remoteTime: number | undefined, localTime: number): void {
+        const time = remoteTime ?? localTime;
+
+        // 取最小偏移：延迟最小的包最接近真实时钟差
+        const offset = localTime - time;
+        this.clockOffset = this.clockOffset === null
+            ? offset
+            : Math.min(offset, this.clockOffset + OFFSET_RELAX);
+
+        const entry: TimedSnapshot = {
+            time,
+            pos: new THREE.Vector3(snapshot.pos[0], snapshot.pos[1], snapshot.pos[2]),
+            rot: new THREE.Quaternion(snapshot.rot[0], snapshot.rot[1], snapshot.rot[2], snapshot.rot[3]),
+            anim: snapshot.anim,
+        };
+
+        // 按时间有序插入（乱序到达时）
+        let index = this.snapshots.length;
+        while (index > 0 && this.snapshots[index - 1].time > time) index--;
+        if (index > 0 && this.snapshots[index - 1].time === time) return;
+        this.snapshots.splice(index, 0, entry);
+
+        if (this.snapshots.length > MAX_SNAPSHOTS) {
+            this.snapshots.shift();
+        }
+    }
+
+    /**
+     * 在本地时间 localTime 采样，没有任何快照时返回 null
+     */
+    public sample(localTime: number): InterpolatedState | null {
+        if (this.snapshots.length === 0 || this.clockOffset === null) return null;
+
+        const renderTime = localTime - this.clockOffset - this.interpolationDelay;
+        const state = this.state;
+
+        // 丢弃不再需要的旧快照（保留 renderTime 之前的最后一个）
+        while (this.snapshots.length > 2 && this.snapshots[1].time <= renderTime) {
+            this.snapshots.shift();
+        }
+
+        const first = this.snapshots[0];
+        if (this.snapshots.length === 1 || renderTime <= first.time) {
+            state.pos.copy(first.pos);
+            state.rot.copy(first.rot);
+            state.velocity.set(0, 0, 0);
+            state.anim = first.anim;
+            return state;
+        }
+
+        const second = this.snapshots[1];
+        const span = Math.max(second.time - first.time, 1);
+        state.velocity.subVectors(second.pos, first.pos).multiplyScalar(1000 / span);
+
+        if (renderTime <= second.time) {
+            const t = (renderTime - first.time) / span;
+            state.pos.lerpVectors(first.pos, second.pos, t);
+            state.rot.slerpQuaternions(first.rot, second.rot, t);
+            state.anim = t < 0.5 ? first.anim : second.anim;
+            return state;
+        }
+
+        // 丢包：沿最后的速度短暂外推，超时后停在外推终点
+        const extrapolate = Math.min(renderTime - second.time, this.maxExtrapolation);
+        state.pos.copy(second.pos).addScaledVector(state.velocity, extrapolate / 1000);
+        state.rot.copy(second.rot);
+        state.anim = second.anim;
+        if (renderTime - second.time > this.maxExtrapolation) {
+            state.velocity.set(0, 0, 0);
+        }
+        return state;
+    }
+
+    public clear(): void {
+        this.snapshots = [];
+        this.clockOffset = null;
+    }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { SnapshotCodec } from './SnapshotCodec';
+import { SnapshotPayload } from './Protocol';
+
+function normalize(rot: number[]): number[] {
+    const length = Math.hypot(rot[0], rot[1], rot[2], rot[3]);
+    return rot.map(v => v / length);
+}
+
+/**
+ * q 与 -q 表示同一旋转：比较 |q1·q2| 是否接近 1
+ */
+function expectSameRotation(actual: number[], expected: number[]) {
+    const a = normalize(actual);
+    const b = normalize(expected);
+    const dot = a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+    expect(Math.abs(dot)).toBeGreaterThan(0.9999);
+}
+
+describe('SnapshotCodec', () => {
+    it('round-trips a snapshot within quantization precision', () => {
+        const snapshot: SnapshotPayload = {
+            id: 'peer-abc',
+            pos: [1.23, -4.5, 100.01],
+            rot: normalize([0.1, -0.7, 0.2, 0.6]),
+            anim: 'jump',
+            seq: 1234,
+            ack: 42,
+        };
+
+        const decoded = SnapshotCodec.decode(SnapshotCodec.encode(snapshot));
+
+        expect(decoded).not.toBeNull();
+        expect(decoded!.id).toBe('peer-abc');
+        expect(decoded!.anim).toBe('jump');
+        expect(decoded!.seq).toBe(1234);
+        expect(decoded!.ack).toBe(42);
+        decoded!.pos.forEach((v, i) => {
+            expect(Math.abs(v - snapshot.pos[i])).toBeLessThanOrEqual(0.5 / 64);
+        });
+        expectSameRotation(decoded!.rot, snapshot.rot);
+    });
+
+    it('keeps the rotation when the largest quaternion component is negative', () => {
+        const rot = normalize([0.3, 0.1, -0.9, 0.2]);
+        const decoded = SnapshotCodec.decode(
+            SnapshotCodec.encode({ id: 'a', pos: [0, 0, 0], rot, anim: 'idle' })
+        );
+        expectSameRotation(decoded!.rot, rot);
+    });
+
+    it('decodes an ArrayBufferView with an offset', () => {
+        const encoded = new Uint8Array(SnapshotCodec.encode({
+            id: 'view', pos: [1, 2, 3], rot: [0, 0, 0, 1], anim: 'run', seq: 7,
+        }));
+        const padded = new Uint8Array(encoded.length + 3);
+        padded.set(encoded, 3);
+
+        const decoded = SnapshotCodec.decode(padded.subarray(3));
+        expect(decoded!.id).toBe('view');
+        expect(decoded!.pos).toEqual([1, 2, 3]);
+    });
+
+    it('omits ack and wraps seq to 16 bits', () => {
+        const decoded = SnapshotCodec.decode(SnapshotCodec.encode({
+            id: 'a', pos: [0, 0, 0], rot: [0, 0, 0, 1], anim: 'idle', seq: 0x10005,
+        }));
+        expect(decoded!.seq).toBe(5);
+        expect(decoded!.ack).toBeUndefined();
+    });
+
+    it('clamps positions outside the int16 range', () => {
+        const decoded = SnapshotCodec.decode(SnapshotCodec.encode({
+            id: 'a', pos: [10000, -10000, 0], rot: [0, 0, 0, 1], anim: 'idle',
+        }));
+        expect(decoded!.pos[0]).toBeCloseTo(32767 / 64);
+        expect(decoded!.pos[1]).toBeCloseTo(-32767 / 64);
+    });
+
+    it('returns null for truncated data', () => {
+        const encoded = new Uint8Array(SnapshotCodec.encode({
+            id: 'truncated', pos: [0, 0, 0], rot: [0, 0, 0, 1], anim: 'idle',
+        }));
+        expect(SnapshotCodec.decode(encoded.subarray(0, 10))).toBeNull();
+        expect(SnapshotCodec.decode(encoded.subarray(0, encoded.length - 1))).toBeNull();
+    });
+});
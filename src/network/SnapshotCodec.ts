@@ -0,0 +1,116 @@
+import {
+    CHARACTER_ANIM_STATES as ANIM_STATES,
+    isCharacterAnimState,
+} from '../objects/character/CharacterAppearance';
+import { SnapshotPayload } from './Protocol';
+
+// 位置量化：1/64 米精度，int16 可表示约 ±512 米
+const POSITION_SCALE = 64;
+const INT16_MAX = 32767;
+
+// smallest-three 四元数：2 位最大分量下标 + 3 × 10 位
+const QUAT_BITS = 10;
+const QUAT_MAX = (1 << QUAT_BITS) - 1;
+const QUAT_RANGE = Math.SQRT1_2;
+
+// seq(2) + pos(6) + rot(4) + anim(1) + ack(2) + idLength(1)
+const HEADER_BYTES = 16;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * 快照二进制编解码
+ */
+export class SnapshotCodec {
+    public static encode(snapshot: SnapshotPayload): ArrayBuffer {
+        const idBytes = textEncoder.encode(snapshot.id).subarray(0, 255);
+        const buffer = new ArrayBuffer(HEADER_BYTES + idBytes.length);
+        const view = new DataView(buffer);
+
+        view.setUint16(0, (snapshot.seq ?? 0) & 0xffff, true);
+        for (let i = 0; i < 3; i++) {
+            view.setInt16(2 + i * 2, SnapshotCodec.quantizePosition(snapshot.pos[i]), true);
+        }
+        view.setUint32(8, SnapshotCodec.packQuaternion(snapshot.rot), true);
+
+        // 动画状态按 CHARACTER_ANIM_STATES 下标编码（该列表只能在末尾追加）
+        const animIndex = isCharacterAnimState(snapshot.anim) ? ANIM_STATES.indexOf(snapshot.anim) : 0;
+        view.setUint8(12, animIndex);
+        // ack 为 0 表示没有确认的输入（输入序号从 1 开始）
+        view.setUint16(13, (snapshot.ack ?? 0) & 0xffff, true);
+        view.setUint8(15, idBytes.length);
+        new Uint8Array(buffer, HEADER_BYTES).set(idBytes);
+
+        return buffer;
+    }
+
+    /**
+     * 解码快照，数据不完整时返回 null
+     */
+    public static decode(data: ArrayBuffer | ArrayBufferView): SnapshotPayload | null {
+        const bytes = data instanceof ArrayBuffer
+            ? new Uint8Array(data)
+            : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+        if (bytes.byteLength < HEADER_BYTES) return null;
+
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const idLength = view.getUint8(15);
+        if (bytes.byteLength < HEADER_BYTES + idLength) return null;
+
+        const pos = [0, 1, 2].map(i => view.getInt16(2 + i * 2, true) / POSITION_SCALE);
+        const rot = SnapshotCodec.unpackQuaternion(view.getUint32(8, true));
+        const anim = ANIM_STATES[view.getUint8(12)] ?? 'idle';
+        const id = textDecoder.decode(bytes.subarray(HEADER_BYTES, HEADER_BYTES + idLength));
+
+        const ack = view.getUint16(13, true);
+
+        return { id, pos, rot, anim, seq: view.getUint16(0, true), ack: ack || undefined };
+    }
+
+    private static quantizePosition(value: number): number {
+        const q = Math.round(value * POSITION_SCALE);
+        return Math.max(-INT16_MAX, Math.min(INT16_MAX, q));
+    }
+
+    /**
+     * 省略绝对值最大的分量（可由单位长度还原），其余三个分量各用 10 位
+     */
+    private static packQuaternion(rot: number[]): number {
+        const length = Math.hypot(rot[0], rot[1], rot[2], rot[3]) || 1;
+        const q = rot.map(v => v / length);
+
+        let largest = 0;
+        for (let i = 1; i < 4; i++) {
+            if (Math.abs(q[i]) > Math.abs(q[largest])) largest = i;
+        }
+        // q 与 -q 表示同一旋转，保证被省略的分量为正
+        const sign = q[largest] < 0 ? -1 : 1;
+
+        let packed = largest;
+        for (let i = 0; i < 4; i++) {
+            if (i === largest) continue;
+            const normalized = (q[i] * sign + QUAT_RANGE) / (2 * QUAT_RANGE);
+            const value = Math.round(Math.max(0, Math.min(1, normalized)) * QUAT_MAX);
+            packed = packed * (QUAT_MAX + 1) + value;
+        }
+        return packed >>> 0;
+    }
+
+    private static unpackQuaternion(packed: number): number[] {
+        const q = [0, 0, 0, 0];
+        const largest = Math.floor(packed / Math.pow(QUAT_MAX + 1, 3));
+
+        let rest = packed;
+        let sumSquares = 0;
+        for (let i = 3; i >= 0; i--) {
+            if (i === largest) continue;
+            const value = rest % (QUAT_MAX + 1);
+            rest = Math.floor(rest / (QUAT_MAX + 1));
+            q[i] = (value / QUAT_MAX) * 2 * QUAT_RANGE - QUAT_RANGE;
+            sumSquares += q[i] * q[i];
+        }
+        q[largest] = Math.sqrt(Math.max(0, 1 - sumSquares));
+        return q;
+    }
+}
@@ -0,0 +1,23 @@
+import { Packet } from './Protocol';
+
+/**
+ * 传输层接口：NetworkManager 通过它收发数据包，不关心底层是 PeerJS、WebSocket 还是进程内回环
+ */
+export interface Transport {
+    onOpen: (id: string) => void;
+    onPacket: (data: unknown, senderId: string) => void;
+    onPeerConnected: (peerId: string) => void;
+    onPeerDisconnected: (peerId: string) => void;
+
+    getId(): string;
+    connect(peerId: string): void;
+    send(packet: Packet, peerId: string): void;
+    broadcast(packet: Packet): void;
+    getPeerIds(): string[];
+    disconnect(peerId: string): void; // 双方都会收到 onPeerDisconnected
+
+    // 房间号：房主把短代码映射到自己的 ID，加入者通过代码查到房主 ID
+    registerRoom(code: string): Promise<boolean>; // 代码已被占用时返回 false，每个传输同时只持有一个房间号
+    resolveRoom(code: string): Promise<string | null>;
+    releaseRoom(): void;
+}
@@ -0,0 +1,152 @@
+import { Packet } from '../Protocol';
+import { Transport } from '../Transport';
+
+/**
+ * 进程内回环网络：同一页面（或测试）中的多个 LoopbackTransport 通过同一个 hub 互相连接
+ */
+export class LoopbackHub {
+    public static readonly shared = new LoopbackHub();
+
+    private transports: Map<string, LoopbackTransport> = new Map();
+    private rooms: Map<string, string> = new Map(); // 房间号 -> ID
+    private nextId: number = 1;
+
+    public allocateId(): string {
+        return 'loopback-' + this.nextId++;
+    }
+
+    public register(transport: LoopbackTransport) {
+        this.transports.set(transport.getId(), transport);
+    }
+
+    public unregister(id: string) {
+        this.transports.delete(id);
+        this.releaseRoom(id);
+    }
+
+    public registerRoom(code: string, id: string): boolean {
+        const owner = this.rooms.get(code);
+        if (owner !== undefined && owner !== id) return false;
+        this.releaseRoom(id);
+        this.rooms.set(code, id);
+        return true;
+    }
+
+    public resolveRoom(code: string): string | null {
+        return this.rooms.get(code) ?? null;
+    }
+
+    public releaseRoom(id: string) {
+        this.rooms.forEach((owner, code) => {
+            if (owner === id) this.rooms.delete(code);
+        });
+    }
+
+    public get(id: string): LoopbackTransport | undefined {
+        return this.transports.get(id);
+    }
+}
+
+/**
+ * 进程内回环传输：数据包经 structuredClone 后异步投递，模拟真实网络的拷贝与时序
+ */
+export class LoopbackTransport implements Transport {
+    private hub: LoopbackHub;
+    private myId: string;
+    private peers: Set<string> = new Set();
+    private closed: boolean = false;
+
+    public onOpen: (id: string) => void = () => {};
+    public onPacket: (data: unknown, senderId: string) => void = () => {};
+    public onPeerConnected: (peerId: string) => void = () => {};
+    public onPeerDisconnected: (peerId: string) => void = () => {};
+
+    constructor(hub: LoopbackHub = LoopbackHub.shared, id?: string) {
+        this.hub = hub;
+        this.myId = id || hub.allocateId();
+        this.hub.register(this);
+
+        // 与 PeerJS 一致，ID 在构造之后异步就绪
+        setTimeout(() => {
+            if (!this.closed) this.onOpen(this.myId);
+        }, 0);
+    }
+
+    public getId(): string {
+        return this.myId;
+    }
+
+    public connect(peerId: string) {
+        setTimeout(() => {
+            const remote = this.hub.get(peerId);
+            if (!remote || this.closed || peerId === this.myId) {
+                console.warn('Loopback peer not found: ' + peerId);
+                return;
+            }
+            this.link(peerId);
+            remote.link(this.myId);
+        }, 0);
+    }
+
+    private link(peerId: string) {
+        if (this.peers.has(peerId)) return;
+        this.peers.add(peerId);
+        this.onPeerConnected(peerId);
+    }
+
+    private unlink(peerId: string) {
+        if (this.peers.delete(peerId)) {
+            this.onPeerDisconnected(peerId);
+        }
+    }
+
+    private receive(packet: Packet, senderId: string) {
+        if (this.closed || !this.peers.has(senderId)) return;
+        this.onPacket(packet, senderId);
+    }
+
+    public send(packet: Packet, peerId: string) {
+        if (!this.peers.has(peerId)) return;
+        const copy = structuredClone(packet);
+        setTimeout(() => {
+            this.hub.get(peerId)?.receive(copy, this.myId);
+        }, 0);
+    }
+
+    public broadcast(packet: Packet) {
+        this.peers.forEach(peerId => this.send(packet, peerId));
+    }
+
+    public getPeerIds(): string[] {
+        return Array.from(this.peers);
+    }
+
+    /**
+     * 断开与某个对端的连接（双方都会收到 onPeerDisconnected）
+     */
+    public disconnect(peerId: string) {
+        this.unlink(peerId);
+        this.hub.get(peerId)?.unlink(this.myId);
+    }
+
+    public registerRoom(code: string): Promise<boolean> {
+        return Promise.resolve(this.hub.registerRoom(code, this.myId));
+    }
+
+    public resolveRoom(code: string): Promise<string | null> {
+        return Promise.resolve(this.hub.resolveRoom(code));
+    }
+
+    public releaseRoom() {
+        this.hub.releaseRoom(this.myId);
+    }
+
+    /**
+     * 关闭传输，相当于关闭浏览器标签页
+     */
+    public close() {
+        this.getPeerIds().forEach(peerId => this.disconnect(peerId));
+        this.closed = true;
+        this.hub.unregister(this.myId);
+    }
+}
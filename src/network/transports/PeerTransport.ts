@@ -0,0 +1,143 @@
+import Peer, { DataConnection } from 'peerjs';
+import { Packet } from '../Protocol';
+import { Transport } from '../Transport';
+
+// 房间号以固定前缀注册为一个独立的 PeerJS ID，由它告诉加入者房主的真实 ID
+const ROOM_PEER_PREFIX = 'uchroom-';
+const ROOM_LOOKUP_TIMEOUT = 5000;
+
+/**
+ * 基于 PeerJS 公共信令服务器的 P2P 传输
+ */
+export class PeerTransport implements Transport {
+    private peer: Peer;
+    private connections: Map<string, DataConnection> = new Map();
+    private myId: string = '';
+    private roomBeacon: Peer | null = null;
+
+    public onOpen: (id: string) => void = () => {};
+    public onPacket: (data: unknown, senderId: string) => void = () => {};
+    public onPeerConnected: (peerId: string) => void = () => {};
+    public onPeerDisconnected: (peerId: string) => void = () => {};
+
+    constructor() {
+        this.peer = new Peer();
+
+        this.peer.on('open', (id: string) => {
+            this.myId = id;
+            this.onOpen(id);
+        });
+
+        this.peer.on('connection', (conn: DataConnection) => {
+            this.handleConnection(conn);
+        });
+    }
+
+    public getId(): string {
+        return this.myId;
+    }
+
+    public connect(peerId: string) {
+        const conn = this.peer.connect(peerId);
+        this.handleConnection(conn);
+    }
+
+    private handleConnection(conn: DataConnection) {
+        conn.on('open', () => {
+            console.log('Connected to: ' + conn.peer);
+            this.connections.set(conn.peer, conn);
+            this.onPeerConnected(conn.peer);
+        });
+
+        conn.on('data', (data: unknown) => {
+            this.onPacket(data, conn.peer);
+        });
+
+        conn.on('close', () => {
+            console.log('Connection closed: ' + conn.peer);
+            if (this.connections.delete(conn.peer)) {
+                this.onPeerDisconnected(conn.peer);
+            }
+        });
+    }
+
+    public send(packet: Packet, peerId: string) {
+        const conn = this.connections.get(peerId);
+        if (conn && conn.open) {
+            conn.send(packet);
+        }
+    }
+
+    public broadcast(packet: Packet) {
+        this.connections.forEach(conn => {
+            if (conn.open) {
+                conn.send(packet);
+            }
+        });
+    }
+
+    public getPeerIds(): string[] {
+        return Array.from(this.connections.keys());
+    }
+
+    public disconnect(peerId: string) {
+        // close 事件负责清理并通知 onPeerDisconnected
+        this.connections.get(peerId)?.close();
+    }
+
+    /**
+     * 信令服务器保证 ID 唯一，用房间号作 ID 创建一个信标 Peer，
+     * 加入者连上信标后收到房主 ID 即断开
+     */
+    public registerRoom(code: string): Promise<boolean> {
+        this.releaseRoom();
+        return new Promise(resolve => {
+            const beacon = new Peer(ROOM_PEER_PREFIX + code);
+            let settled = false;
+
+            beacon.on('open', () => {
+                if (settled) return;
+                settled = true;
+                this.roomBeacon = beacon;
+                resolve(true);
+            });
+
+            // 注册前的错误（通常是 unavailable-id）视为房间号被占用
+            beacon.on('error', () => {
+                if (settled) return;
+                settled = true;
+                beacon.destroy();
+                resolve(false);
+            });
+
+            beacon.on('connection', (conn: DataConnection) => {
+                conn.on('open', () => conn.send(this.myId));
+            });
+        });
+    }
+
+    public resolveRoom(code: string): Promise<string | null> {
+        return new Promise(resolve => {
+            const conn = this.peer.connect(ROOM_PEER_PREFIX + code);
+            let settled = false;
+            const finish = (hostId: string | null) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                conn.close();
+                resolve(hostId);
+            };
+            // 房间不存在时 PeerJS 只在 Peer 上报错，这里靠超时判断
+            const timer = setTimeout(() => finish(null), ROOM_LOOKUP_TIMEOUT);
+
+            conn.on('data', (data: unknown) => {
+                finish(typeof data === 'string' && data ? data : null);
+            });
+        });
+    }
+
+    public releaseRoom() {
+        this.roomBeacon?.destroy();
+        this.roomBeacon = null;
+    }
+}
@@ -0,0 +1,115 @@
+import { Packet, PacketType } from '../Protocol';
+import { Transport } from '../Transport';
+import { MatchRecording, RecordedPacket } from '../MatchRecording';
+
+/**
+ * 回放中所有来自房主的数据包都以这个 ID 发出（录像期间可能发生过房主迁移）
+ */
+export const REPLAY_HOST_ID = 'replay-host';
+
+/**
+ * 回放传输：按录制时的时间顺序把数据包交给 NetworkManager，发送的数据包全部丢弃
+ * 观看者相当于一个只读的客户端，只接收普通客户端会从房主收到的数据包
+ */
+export class ReplayTransport implements Transport {
+    private recording: MatchRecording;
+    private packets: RecordedPacket[];
+    private nextIndex: number = 0;
+    private startedAt: number = 0;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    public onOpen: (id: string) => void = () => {};
+    public onPacket: (data: unknown, senderId: string) => void = () => {};
+    public onPeerConnected: (peerId: string) => void = () => {};
+    public onPeerDisconnected: (peerId: string) => void = () => {};
+    public onEnd: () => void = () => {};
+
+    constructor(recording: MatchRecording) {
+        this.recording = recording;
+        this.packets = recording.packets.filter(entry => this.isViewerPacket(entry));
+    }
+
+    /**
+     * 录制者是房主时取它广播的数据包；是客户端时取它收到的数据包，外加它自己的快照（房主不会转发回来）
+     * 时钟样本只对录制者有效，不回放
+     */
+    private isViewerPacket(entry: RecordedPacket): boolean {
+        if (entry.packet.t === PacketType.PONG) return false;
+        if (entry.host) {
+            return entry.dir === 'out' && entry.peer === '';
+        }
+        return entry.dir === 'in' ||
+            entry.packet.t === PacketType.SNAPSHOT ||
+            entry.packet.t === PacketType.SNAPSHOT_BINARY;
+    }
+
+    public getId(): string {
+        return 'replay-viewer';
+    }
+
+    /**
+     * 连接到房主即开始回放
+     */
+    public connect(_peerId: string) {
+        this.stop();
+        setTimeout(() => {
+            this.onPeerConnected(REPLAY_HOST_ID);
+            this.startedAt = Date.now();
+            this.nextIndex = 0;
+            this.playDue();
+        }, 0);
+    }
+
+    /**
+     * 回放开始时对应的原房主时间，观看者据此换算房主时钟
+     */
+    public getHostTimeOrigin(): number {
+        return this.recording.startedAt + this.recording.hostClockOffset;
+    }
+
+    private playDue() {
+        const elapsed = Date.now() - this.startedAt;
+        while (this.nextIndex < this.packets.length && this.packets[this.nextIndex].at <= elapsed) {
+            const entry = this.packets[this.nextIndex++];
+            const senderId = entry.dir === 'out' && !entry.host ? this.recording.recordedBy : REPLAY_HOST_ID;
+            // 与真实网络一样交给接收方一份副本
+            this.onPacket(structuredClone(entry.packet), senderId);
+        }
+
+        if (this.nextIndex >= this.packets.length) {
+            this.timer = null;
+            this.onEnd();
+            return;
+        }
+        this.timer = setTimeout(() => this.playDue(), this.packets[this.nextIndex].at - elapsed);
+    }
+
+    public stop() {
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    public send(_packet: Packet, _peerId: string) {}
+
+    public broadcast(_packet: Packet) {}
+
+    public getPeerIds(): string[] {
+        return [REPLAY_HOST_ID];
+    }
+
+    public disconnect(_peerId: string) {
+        this.stop();
+    }
+
+    public registerRoom(_code: string): Promise<boolean> {
+        return Promise.resolve(false);
+    }
+
+    public resolveRoom(_code: string): Promise<string | null> {
+        return Promise.resolve(null);
+    }
+
+    public releaseRoom() {}
+}
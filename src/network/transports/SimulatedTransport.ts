@@ -0,0 +1,158 @@
+import { Packet } from '../Protocol';
+import { Transport } from '../Transport';
+
+/**
+ * 模拟的网络状况（单向，收发两个方向各自生效）
+ */
+export interface NetworkConditions {
+    latency: number;   // 固定延迟（ms）
+    jitter: number;    // 在延迟基础上随机增减（ms）
+    drop: number;      // 丢包概率 0..1
+    duplicate: number; // 重复发送概率 0..1
+    reorder: number;   // 额外滞留一段时间、被后续数据包超过的概率 0..1
+}
+
+export const NO_NETWORK_CONDITIONS: NetworkConditions = {
+    latency: 0,
+    jitter: 0,
+    drop: 0,
+    duplicate: 0,
+    reorder: 0,
+};
+
+/**
+ * 从 URL 参数读取模拟网络状况，例如 ?netLatency=150&netJitter=50&netDrop=0.05&netDuplicate=0.01&netReorder=0.1
+ */
+export function readNetworkConditions(search: string = window.location.search): NetworkConditions {
+    const params = new URLSearchParams(search);
+    const conditions: NetworkConditions = { ...NO_NETWORK_CONDITIONS };
+
+    const read = (name: string, max: number) => {
+        const value = Number(params.get(name));
+        return Number.isFinite(value) && value > 0 ? Math.min(value, max) : 0;
+    };
+    conditions.latency = read('netLatency', 5000);
+    conditions.jitter = read('netJitter', 5000);
+    conditions.drop = read('netDrop', 1);
+    conditions.duplicate = read('netDuplicate', 1);
+    conditions.reorder = read('netReorder', 1);
+
+    return conditions;
+}
+
+function isActive(conditions: NetworkConditions): boolean {
+    return Object.values(conditions).some(value => value > 0);
+}
+
+/**
+ * 包装任意传输层，在收发数据包时注入延迟、抖动、乱序、重复和丢包
+ * 用于在本机复现远程玩家遇到的网络问题；未设置任何状况时直接透传
+ */
+export class SimulatedTransport implements Transport {
+    private inner: Transport;
+    private conditions: NetworkConditions;
+    private peerConditions: Map<string, NetworkConditions> = new Map();
+
+    public onOpen: (id: string) => void = () => {};
+    public onPacket: (data: unknown, senderId: string) => void = () => {};
+    public onPeerConnected: (peerId: string) => void = () => {};
+    public onPeerDisconnected: (peerId: string) => void = () => {};
+
+    constructor(inner: Transport, conditions: NetworkConditions = NO_NETWORK_CONDITIONS) {
+        this.inner = inner;
+        this.conditions = { ...conditions };
+
+        this.inner.onOpen = (id: string) => this.onOpen(id);
+        this.inner.onPeerConnected = (peerId: string) => this.onPeerConnected(peerId);
+        this.inner.onPeerDisconnected = (peerId: string) => this.onPeerDisconnected(peerId);
+        this.inner.onPacket = (data: unknown, senderId: string) => {
+            this.deliver(senderId, data, copy => this.onPacket(copy, senderId));
+        };
+    }
+
+    /**
+     * 设置所有对端的默认状况
+     */
+    public setConditions(conditions: NetworkConditions) {
+        this.conditions = { ...conditions };
+    }
+
+    public getConditions(peerId?: string): NetworkConditions {
+        return (peerId && this.peerConditions.get(peerId)) || this.conditions;
+    }
+
+    /**
+     * 为单个对端单独设置状况，传 null 恢复使用默认状况
+     */
+    public setPeerConditions(peerId: string, conditions: NetworkConditions | null) {
+        if (conditions) {
+            this.peerConditions.set(peerId, { ...conditions });
+        } else {
+            this.peerConditions.delete(peerId);
+        }
+    }
+
+    public getId(): string {
+        return this.inner.getId();
+    }
+
+    public connect(peerId: string) {
+        this.inner.connect(peerId);
+    }
+
+    public send(packet: Packet, peerId: string) {
+        this.deliver(peerId, packet, copy => this.inner.send(copy as Packet, peerId));
+    }
+
+    public broadcast(packet: Packet) {
+        // 逐个对端发送，使每个对端的状况单独生效
+        this.inner.getPeerIds().forEach(peerId => this.send(packet, peerId));
+    }
+
+    public getPeerIds(): string[] {
+        return this.inner.getPeerIds();
+    }
+
+    public disconnect(peerId: string) {
+        this.inner.disconnect(peerId);
+    }
+
+    // 房间号查询走信令层，不模拟网络状况
+    public registerRoom(code: string): Promise<boolean> {
+        return this.inner.registerRoom(code);
+    }
+
+    public resolveRoom(code: string): Promise<string | null> {
+        return this.inner.resolveRoom(code);
+    }
+
+    public releaseRoom() {
+        this.inner.releaseRoom();
+    }
+
+    private deliver(peerId: string, data: unknown, send: (data: unknown) => void) {
+        const conditions = this.getConditions(peerId);
+        if (!isActive(conditions)) {
+            send(data);
+            return;
+        }
+
+        if (Math.random() < conditions.drop) return;
+
+        // 延迟发送前先复制，避免调用方之后修改对象（例如 lobbyPlayers）
+        const copy = structuredClone(data);
+        const copies = Math.random() < conditions.duplicate ? 2 : 1;
+        for (let i = 0; i < copies; i++) {
+            setTimeout(() => send(copy), this.sampleDelay(conditions));
+        }
+    }
+
+    private sampleDelay(conditions: NetworkConditions): number {
+        let delay = conditions.latency + (Math.random() * 2 - 1) * conditions.jitter;
+        if (Math.random() < conditions.reorder) {
+            // 滞留到足以被后面的数据包超过
+            delay += conditions.jitter * 2 + 50;
+        }
+        return Math.max(0, delay);
+    }
+}
@@ -0,0 +1,146 @@
+import { Packet } from '../Protocol';
+import { Transport } from '../Transport';
+import { encodeBinary, decodeBinary } from '../BinaryJson';
+
+/**
+ * 中继服务器消息（与 server/relay.mjs 保持一致）
+ */
+type RelayMessage =
+    | { type: 'open'; id: string }
+    | { type: 'peer-open'; id: string }
+    | { type: 'peer-close'; id: string }
+    | { type: 'packet'; from: string; packet: unknown }
+    | { type: 'registered'; room: string; ok: boolean }
+    | { type: 'resolved'; room: string; id: string | null };
+
+/**
+ * 基于局域网 WebSocket 中继的传输，不依赖 PeerJS 公共信令服务器
+ */
+export class WebSocketTransport implements Transport {
+    private socket: WebSocket;
+    private peers: Set<string> = new Set();
+    private myId: string = '';
+    // 等待中继回复的房间号请求
+    private pendingRegisters: Map<string, (ok: boolean) => void> = new Map();
+    private pendingResolves: Map<string, (id: string | null) => void> = new Map();
+
+    public onOpen: (id: string) => void = () => {};
+    public onPacket: (data: unknown, senderId: string) => void = () => {};
+    public onPeerConnected: (peerId: string) => void = () => {};
+    public onPeerDisconnected: (peerId: string) => void = () => {};
+
+    constructor(relayUrl: string) {
+        this.socket = new WebSocket(relayUrl);
+
+        this.socket.addEventListener('message', (event: MessageEvent) => {
+            let message: RelayMessage;
+            try {
+                message = JSON.parse(event.data as string, decodeBinary);
+            } catch {
+                return;
+            }
+            this.handleMessage(message);
+        });
+
+        this.socket.addEventListener('close', () => {
+            console.log('Relay connection closed');
+            this.getPeerIds().forEach(peerId => {
+                this.peers.delete(peerId);
+                this.onPeerDisconnected(peerId);
+            });
+            this.pendingRegisters.forEach(callback => callback(false));
+            this.pendingRegisters.clear();
+            this.pendingResolves.forEach(callback => callback(null));
+            this.pendingResolves.clear();
+        });
+    }
+
+    private handleMessage(message: RelayMessage) {
+        switch (message.type) {
+            case 'open':
+                this.myId = message.id;
+                this.onOpen(message.id);
+                break;
+            case 'peer-open':
+                console.log('Connected to: ' + message.id);
+                this.peers.add(message.id);
+                this.onPeerConnected(message.id);
+                break;
+            case 'peer-close':
+                console.log('Connection closed: ' + message.id);
+                if (this.peers.delete(message.id)) {
+                    this.onPeerDisconnected(message.id);
+                }
+                break;
+            case 'packet':
+                this.onPacket(message.packet, message.from);
+                break;
+            case 'registered':
+                this.pendingRegisters.get(message.room)?.(message.ok);
+                this.pendingRegisters.delete(message.room);
+                break;
+            case 'resolved':
+                this.pendingResolves.get(message.room)?.(message.id);
+                this.pendingResolves.delete(message.room);
+                break;
+        }
+    }
+
+    private write(message: object) {
+        if (this.socket.readyState === WebSocket.OPEN) {
+            this.socket.send(JSON.stringify(message, encodeBinary));
+        }
+    }
+
+    public getId(): string {
+        return this.myId;
+    }
+
+    public connect(peerId: string) {
+        // 房间号即房主 ID
+        this.write({ type: 'join', room: peerId });
+    }
+
+    public send(packet: Packet, peerId: string) {
+        if (this.peers.has(peerId)) {
+            this.write({ type: 'packet', to: peerId, packet });
+        }
+    }
+
+    public broadcast(packet: Packet) {
+        if (this.peers.size > 0) {
+            this.write({ type: 'packet', packet });
+        }
+    }
+
+    public getPeerIds(): string[] {
+        return Array.from(this.peers);
+    }
+
+    public disconnect(peerId: string) {
+        // 中继会向双方发送 peer-close
+        this.write({ type: 'leave', peer: peerId });
+    }
+
+    public registerRoom(code: string): Promise<boolean> {
+        if (this.socket.readyState !== WebSocket.OPEN) return Promise.resolve(false);
+        return new Promise(resolve => {
+            this.pendingRegisters.get(code)?.(false);
+            this.pendingRegisters.set(code, resolve);
+            this.write({ type: 'register', room: code });
+        });
+    }
+
+    public resolveRoom(code: string): Promise<string | null> {
+        if (this.socket.readyState !== WebSocket.OPEN) return Promise.resolve(null);
+        return new Promise(resolve => {
+            this.pendingResolves.get(code)?.(null);
+            this.pendingResolves.set(code, resolve);
+            this.write({ type: 'resolve', room: code });
+        });
+    }
+
+    public releaseRoom() {
+        this.write({ type: 'release' });
+    }
+}
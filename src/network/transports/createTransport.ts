@@ -0,0 +1,25 @@
+import { Transport } from '../Transport';
+import { LoopbackTransport } from './LoopbackTransport';
+import { PeerTransport } from './PeerTransport';
+import { WebSocketTransport } from './WebSocketTransport';
+
+/**
+ * 根据 URL 参数选择传输层：
+ *   ?relay=ws://192.168.1.5:8787  使用局域网 WebSocket 中继
+ *   ?transport=loopback           使用进程内回环（本地开发/测试）
+ *   默认使用 PeerJS
+ */
+export function createTransport(search: string = window.location.search): Transport {
+    const params = new URLSearchParams(search);
+
+    const relayUrl = params.get('relay');
+    if (relayUrl) {
+        return new WebSocketTransport(relayUrl);
+    }
+
+    if (params.get('transport') === 'loopback') {
+        return new LoopbackTransport();
+    }
+
+    return new PeerTransport();
+}
@@ -7,6 +7,20 @@ export type CharacterAnimState =
   | "win"
   | "dance";
 
+export const CHARACTER_ANIM_STATES: readonly CharacterAnimState[] = [
+  "idle",
+  "run",
+  "jump",
+  "fall",
+  "dead",
+  "win",
+  "dance",
+];
+
+export function isCharacterAnimState(value: string): value is CharacterAnimState {
+  return (CHARACTER_ANIM_STATES as readonly string[]).includes(value);
+}
+
 export interface CharacterAppearance {
   id: string; // e.g. 'chicken', 'horse'
 
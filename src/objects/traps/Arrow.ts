@@ -17,7 +17,8 @@ export class Arrow {
   constructor(
     mesh: THREE.Group,
     position: THREE.Vector3,
-    direction: THREE.Vector3
+    direction: THREE.Vector3,
+    owner: string
   ) {
     this.mesh = mesh.clone();
     this.mesh.position.copy(position);
@@ -58,7 +59,7 @@ export class Arrow {
     this.body.quaternion.set(bodyQuat.x, bodyQuat.y, bodyQuat.z, bodyQuat.w);
 
     // Tag for player collision
-    (this.body as any).userData = { tag: "trap" };
+    (this.body as any).userData = { tag: "trap", owner: owner };
     (this.body as any).meshReference = this.mesh;
 
     // Make it a sensor so it doesn't physically push things?
@@ -8,6 +8,7 @@ export class BlackHole {
   public mesh: THREE.Group;
   public body: CANNON.Body;
   private rotationSpeed: number = 5; // 快速旋转
+  private clock: number = 0; // 旋转相位由时间决定，有回合时钟时各端一致
   private pullRadius: number = 8; // 吸引范围
   private pullForce: number = 15; // 吸引力强度
   private killRadius: number = 0.8; // 死亡半径（被吸入）
@@ -17,7 +18,7 @@ export class BlackHole {
     mesh: THREE.Group,
     body: CANNON.Body,
     _world: CANNON.World, // 保留参数以便未来扩展
-    owner: string = "local"
+    owner: string // 建造者的玩家 ID，击杀得分记给他
   ) {
     this.mesh = mesh;
     this.body = body;
@@ -35,10 +36,13 @@ export class BlackHole {
    * 更新黑洞状态
    * @param dt 时间间隔
    * @param playerBodies 所有玩家的物理body
+   * @param roundTime RUN 开始后的回合时间（秒，各端一致），没有时按本地时间推进
    */
-  public update(dt: number, playerBodies: CANNON.Body[]): void {
+  public update(dt: number, playerBodies: CANNON.Body[], roundTime?: number): void {
+    this.clock = roundTime ?? this.clock + dt;
+
     // 快速横向旋转
-    this.mesh.rotation.y += this.rotationSpeed * dt;
+    this.mesh.rotation.y = this.rotationSpeed * this.clock;
 
     // 对周围玩家施加吸引力
     const holePos = this.body.position;
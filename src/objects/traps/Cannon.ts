@@ -9,7 +9,8 @@ export class Cannon {
   public body: CANNON.Body;
   private launchSpeed: number = 25; // 发射初速度（较大）
   private launchAngle: number = Math.PI / 4; // 45度角
-  private cooldown: number = 0; // 冷却时间
+  private clock: number = 0; // 大炮自己的时间（有回合时钟时与之一致）
+  private cooldownUntil: number = 0; // 冷却结束时刻
   private cooldownDuration: number = 0.5; // 冷却持续时间
   public owner: string;
   private rotationY: number; // 大炮朝向（用于计算发射方向）
@@ -18,7 +19,7 @@ export class Cannon {
   private launchDelay: number = 0.5;
   private capturedPlayerId: string | null = null;
   private capturedPlayerBody: CANNON.Body | null = null;
-  private delayTimer: number = 0;
+  private launchAt: number = 0; // 发射时刻
 
   public onLaunch?: (playerId: string) => void;
   public onCapture?: (playerId: string) => void;
@@ -27,7 +28,7 @@ export class Cannon {
     mesh: THREE.Group,
     body: CANNON.Body,
     rotationY: number = 0,
-    owner: string = "local"
+    owner: string // 建造者的玩家 ID，击杀得分记给他
   ) {
     this.mesh = mesh;
     this.body = body;
@@ -48,15 +49,13 @@ export class Cannon {
   /**
    * 更新大炮状态
    * @param dt 时间间隔
+   * @param roundTime RUN 开始后的回合时间（秒，各端一致），没有时按本地时间推进
    */
-  public update(dt: number): void {
-    if (this.cooldown > 0) {
-      this.cooldown -= dt;
-    }
+  public update(dt: number, roundTime?: number): void {
+    this.clock = roundTime ?? this.clock + dt;
 
     // 处理延迟发射
     if (this.capturedPlayerId && this.capturedPlayerBody) {
-      this.delayTimer -= dt;
       
       // 将玩家固定在大炮位置（稍微抬高一点，避免穿模）
       this.capturedPlayerBody.position.set(
@@ -66,7 +65,7 @@ export class Cannon {
       );
       this.capturedPlayerBody.velocity.set(0, 0, 0);
       
-      if (this.delayTimer <= 0) {
+      if (this.clock >= this.launchAt) {
         this.launchPlayer(this.capturedPlayerId, this.capturedPlayerBody);
         this.capturedPlayerId = null;
         this.capturedPlayerBody = null;
@@ -81,7 +80,7 @@ export class Cannon {
    * @returns 是否成功捕获
    */
   public checkAndLaunch(playerId: string, playerBody: CANNON.Body): boolean {
-    if (this.cooldown > 0 || this.capturedPlayerId !== null) return false;
+    if (this.clock < this.cooldownUntil || this.capturedPlayerId !== null) return false;
 
     const cannonPos = this.body.position;
     const playerPos = playerBody.position;
@@ -96,7 +95,7 @@ export class Cannon {
       // 捕获玩家
       this.capturedPlayerId = playerId;
       this.capturedPlayerBody = playerBody;
-      this.delayTimer = this.launchDelay;
+      this.launchAt = this.clock + this.launchDelay;
       
       if (this.onCapture) {
         this.onCapture(playerId);
@@ -111,7 +110,7 @@ export class Cannon {
    */
   private launchPlayer(playerId: string, playerBody: CANNON.Body): void {
     // 设置冷却
-    this.cooldown = this.cooldownDuration;
+    this.cooldownUntil = this.clock + this.cooldownDuration;
 
     // 触发回调
     if (this.onLaunch) {
@@ -170,6 +169,16 @@ export class Cannon {
     ).normalize();
   }
 
+  /**
+   * 回合时钟开始：清除上一阶段的冷却和捕获状态
+   */
+  public resetClock(): void {
+    this.clock = 0;
+    this.cooldownUntil = 0;
+    this.capturedPlayerId = null;
+    this.capturedPlayerBody = null;
+  }
+
   /**
    * 清理大炮
    */
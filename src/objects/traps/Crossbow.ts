@@ -7,10 +7,12 @@ export class Crossbow {
   public body: CANNON.Body;
   private fireRate: number = 0.5; // 1 arrow every 2 seconds
   private timeSinceLastFire: number = 0;
+  private shotsFired: number = 0; // 本回合按回合时钟已发射的箭数
   private arrowModel: THREE.Group;
   private arrows: Arrow[] = [];
   private scene: THREE.Scene;
   private world: CANNON.World;
+  public owner: string;
 
   public onFire?: () => void;
   public onArrowHit?: (info: { tag?: string }) => void;
@@ -20,23 +22,38 @@ export class Crossbow {
     body: CANNON.Body,
     arrowModel: THREE.Group,
     scene: THREE.Scene,
-    world: CANNON.World
+    world: CANNON.World,
+    owner: string // 建造者的玩家 ID，箭矢击杀得分记给他
   ) {
     this.mesh = mesh;
     this.body = body;
     this.arrowModel = arrowModel;
     this.scene = scene;
     this.world = world;
+    this.owner = owner;
 
     // Tag
-    (this.body as any).userData = { tag: "block" };
+    (this.body as any).userData = { tag: "block", owner: owner };
   }
 
-  public update(dt: number) {
-    this.timeSinceLastFire += dt;
-    if (this.timeSinceLastFire >= 1 / this.fireRate) {
-      this.fire();
-      this.timeSinceLastFire = 0;
+  /**
+   * roundTime: RUN 开始后的回合时间（秒，各端一致）。有回合时钟时在固定时刻发射，
+   * 否则（建造阶段预览）按本地计时发射
+   */
+  public update(dt: number, roundTime?: number) {
+    if (roundTime !== undefined) {
+      // 卡顿时跳过错过的发射，只补发最近一次
+      const due = Math.floor(roundTime * this.fireRate);
+      if (due > this.shotsFired) {
+        this.shotsFired = due;
+        this.fire();
+      }
+    } else {
+      this.timeSinceLastFire += dt;
+      if (this.timeSinceLastFire >= 1 / this.fireRate) {
+        this.fire();
+        this.timeSinceLastFire = 0;
+      }
     }
 
     // Update arrows
@@ -66,7 +83,7 @@ export class Crossbow {
     // Original offset 0.6 -> New offset 1.2
     position.add(direction.clone().multiplyScalar(1.2));
 
-    const arrow = new Arrow(this.arrowModel, position, direction);
+    const arrow = new Arrow(this.arrowModel, position, direction, this.owner);
     arrow.onHit = (info) => this.onArrowHit?.(info);
     arrow.setWorld(this.world); // 传递 world 引用给箭矢
     this.scene.add(arrow.mesh);
@@ -85,4 +102,13 @@ export class Crossbow {
     this.arrows.forEach((arrow) => this.removeArrow(arrow));
     this.arrows = [];
   }
+
+  /**
+   * 回合时钟开始：清除预览阶段的箭矢，从头计数
+   */
+  public resetClock() {
+    this.cleanup();
+    this.shotsFired = 0;
+    this.timeSinceLastFire = 0;
+  }
 }
@@ -18,7 +18,7 @@ export class GoldCoin {
   constructor(
     mesh: THREE.Group,
     body: CANNON.Body,
-    owner: string = "local"
+    owner: string // 放置者的玩家 ID；金币分数记给捡到它的玩家，不记给放置者
   ) {
     this.mesh = mesh;
     this.body = body;
@@ -4,9 +4,14 @@ import { PlaceholderGenerator } from "../utils/PlaceholderGenerator";
 import { Resources } from "../core/Resources";
 import { listCharacterAppearances } from "../objects/character/CharacterRegistry";
 import { ChatSystem } from "./components/ChatSystem";
-import { ScoreScreen, ScoreData } from "./components/ScoreScreen";
+import { ScoreScreen } from "./components/ScoreScreen";
 import { WinScreen } from "./components/WinScreen";
 import { MapSelector } from "./components/MapSelector";
+import type { PlayerInfo, GameWinner } from "../network/Protocol";
+import { MatchRules, MATCH_RULE_FIELDS, TIE_BREAKS } from "../core/MatchRules";
+import type { ScoreLedger } from "../core/ScoreLedger";
+import { buildRoomUrl } from "../network/RoomCode";
+import { MAX_NICKNAME_LENGTH } from "../utils/TextSanitizer";
 
 /**
  * Lobby character model data
@@ -18,6 +23,19 @@ interface LobbyCharacterData {
   charNameLabel: THREE.Sprite | null;
 }
 
+/**
+ * 房主在大厅玩家列表中的管理操作
+ */
+export interface LobbyModeration {
+  locked: boolean;
+  maxPlayers: number;
+  maxPlayersLimit: number;
+  onKick: (playerId: string) => void;
+  onBan: (playerId: string) => void;
+  onToggleLock: () => void;
+  onMaxPlayersChange: (maxPlayers: number) => void;
+}
+
 /**
  * UI Manager: Manages game UI interface
  */
@@ -292,7 +310,9 @@ export class UIManager {
 
   public showTitleScreen(
     onHost: (nickname: string) => void,
-    onJoin: (nickname: string, hostId: string) => void
+    onJoin: (nickname: string, roomCode: string, spectator: boolean) => void,
+    onReplay: (recordingText: string) => void,
+    notice?: string
   ): void {
     this.uiLayer.innerHTML = "";
 
@@ -320,6 +340,21 @@ export class UIManager {
     logoImg.style.animation = "logo-pop-in 1s cubic-bezier(0.34, 1.56, 0.64, 1)";
     container.appendChild(logoImg);
 
+    // 提示信息（例如加入被拒绝的原因）
+    if (notice) {
+      const noticeText = document.createElement("div");
+      noticeText.innerText = notice;
+      noticeText.style.maxWidth = "600px";
+      noticeText.style.marginBottom = "20px";
+      noticeText.style.padding = "10px 20px";
+      noticeText.style.fontSize = "18px";
+      noticeText.style.textAlign = "center";
+      noticeText.style.color = "#fff";
+      noticeText.style.backgroundColor = "#c0392b";
+      noticeText.style.borderRadius = "8px";
+      container.appendChild(noticeText);
+    }
+
     // 昵称输入框
     let nickname = "Player" + Math.floor(Math.random() * 1000);
     const nameInputContainer = document.createElement("div");
@@ -336,6 +371,7 @@ export class UIManager {
 
     const nameInput = document.createElement("input");
     nameInput.value = nickname;
+    nameInput.maxLength = MAX_NICKNAME_LENGTH;
     nameInput.className = "ui-element";
     nameInput.style.padding = "10px 15px";
     nameInput.style.fontSize = "20px";
@@ -350,6 +386,21 @@ export class UIManager {
     nameInputContainer.appendChild(nameInput);
     container.appendChild(nameInputContainer);
 
+    // 只观战（仅对加入生效）
+    const spectateLabel = document.createElement("label");
+    spectateLabel.className = "ui-element";
+    spectateLabel.style.marginTop = "-15px";
+    spectateLabel.style.marginBottom = "25px";
+    spectateLabel.style.fontSize = "18px";
+    spectateLabel.style.color = "#3b2b1a";
+    spectateLabel.style.cursor = "pointer";
+    const spectateInput = document.createElement("input");
+    spectateInput.type = "checkbox";
+    spectateInput.style.marginRight = "8px";
+    spectateLabel.appendChild(spectateInput);
+    spectateLabel.appendChild(document.createTextNode("Join as spectator"));
+    container.appendChild(spectateLabel);
+
     // 按钮容器
     const btnContainer = document.createElement("div");
     btnContainer.style.display = "flex";
@@ -358,7 +409,7 @@ export class UIManager {
 
     // HOST 按钮
     const hostBtn = document.createElement("button");
-    hostBtn.innerText = "HOST GAME";
+    hostBtn.innerText = "HOST";
     hostBtn.className = "ui-element";
     this.styleButton(hostBtn, "#4CAF50");
     hostBtn.onclick = () => onHost(nickname);
@@ -366,15 +417,42 @@ export class UIManager {
 
     // JOIN 按钮
     const joinBtn = document.createElement("button");
-    joinBtn.innerText = "JOIN GAME";
+    joinBtn.innerText = "JOIN WITH CODE";
     joinBtn.className = "ui-element";
     this.styleButton(joinBtn, "#2196F3");
     joinBtn.onclick = () => {
-      const hostId = window.prompt("Enter Host ID:", "") || "";
-      if (!hostId) return;
-      onJoin(nickname, hostId);
+      const roomCode = (window.prompt("Enter room code or Host ID:", "") || "").trim();
+      if (!roomCode) return;
+      onJoin(nickname, roomCode, spectateInput.checked);
     };
     btnContainer.appendChild(joinBtn);
+
+    // 回放录像（F9 在比赛中下载）
+    const replayInput = document.createElement("input");
+    replayInput.type = "file";
+    replayInput.accept = ".json,application/json";
+    replayInput.style.display = "none";
+    replayInput.onchange = async () => {
+      const file = replayInput.files?.[0];
+      if (!file) return;
+      onReplay(await file.text());
+    };
+    container.appendChild(replayInput);
+
+    const replayBtn = document.createElement("button");
+    replayBtn.innerText = "Watch replay";
+    replayBtn.className = "ui-element";
+    replayBtn.style.marginTop = "25px";
+    replayBtn.style.padding = "6px 16px";
+    replayBtn.style.fontSize = "16px";
+    replayBtn.style.border = "2px solid #3b2b1a";
+    replayBtn.style.borderRadius = "8px";
+    replayBtn.style.backgroundColor = "transparent";
+    replayBtn.style.color = "#3b2b1a";
+    replayBtn.style.cursor = "pointer";
+    replayBtn.style.fontFamily = "inherit";
+    replayBtn.onclick = () => replayInput.click();
+    container.appendChild(replayBtn);
   }
 
   private styleButton(btn: HTMLButtonElement, color: string): void {
@@ -410,6 +488,7 @@ export class UIManager {
     myId: string,
     players: any[],
     isHost: boolean,
+    roomCode: string | null,
     onCharacterSelect: (charId: string) => void,
     onStart: () => void,
     onNicknameChange?: (newNickname: string) => void
@@ -430,28 +509,34 @@ export class UIManager {
     this.cleanupLobbyCharacters();
     this.uiRoot3D.clear();
 
-    // Host ID display
+    // 房间号显示（注册失败时退回显示 Host ID）
     if (isHost) {
       const hostInfo = document.createElement("div");
       hostInfo.className = "ui-host-info ui-element";
 
       const idSpan = document.createElement("span");
       idSpan.className = "ui-host-id-text";
-      idSpan.innerText = myId ? `Host ID: ${myId}` : "Connecting...";
+      if (roomCode) {
+        idSpan.innerText = `Room: ${roomCode}`;
+      } else {
+        idSpan.innerText = myId ? `Host ID: ${myId}` : "Connecting...";
+      }
       hostInfo.appendChild(idSpan);
 
+      const copyLabel = roomCode ? "Copy Link" : "Copy";
       const copyBtn = document.createElement("button");
       copyBtn.className = "ui-host-copy";
-      copyBtn.innerText = "Copy";
+      copyBtn.innerText = copyLabel;
       copyBtn.onclick = async () => {
-        if (!myId) return;
+        const text = roomCode ? buildRoomUrl(roomCode) : myId;
+        if (!text) return;
         try {
-          await navigator.clipboard.writeText(myId);
+          await navigator.clipboard.writeText(text);
           copyBtn.innerText = "Copied";
-          setTimeout(() => (copyBtn.innerText = "Copy"), 1500);
+          setTimeout(() => (copyBtn.innerText = copyLabel), 1500);
         } catch {
           copyBtn.innerText = "Failed";
-          setTimeout(() => (copyBtn.innerText = "Copy"), 1500);
+          setTimeout(() => (copyBtn.innerText = copyLabel), 1500);
         }
       };
       hostInfo.appendChild(copyBtn);
@@ -574,6 +659,218 @@ export class UIManager {
     }
   }
 
+  /**
+   * 大厅玩家列表（昵称 + 延迟），延迟更新时单独刷新，不重建 3D 角色
+   */
+  public updateLobbyPlayerList(
+    myId: string,
+    players: PlayerInfo[],
+    pings: { [playerId: string]: number },
+    onToggleSpectator: () => void,
+    moderation?: LobbyModeration
+  ): void {
+    let list = document.getElementById("ui-lobby-players");
+    if (!list) {
+      list = document.createElement("div");
+      list.id = "ui-lobby-players";
+      list.className = "ui-lobby-players ui-element";
+      this.uiLayer.appendChild(list);
+    }
+    list.innerHTML = "";
+
+    const header = document.createElement("div");
+    header.className = "ui-lobby-players-row ui-lobby-players-header";
+    header.innerHTML = "<span>Player</span><span>Ping</span>";
+    list.appendChild(header);
+
+    // 房主：人数上限和锁定
+    if (moderation) {
+      const settings = document.createElement("div");
+      settings.className = "ui-lobby-players-row ui-lobby-moderation";
+
+      const capacity = document.createElement("span");
+      const minus = document.createElement("button");
+      minus.innerText = "-";
+      minus.disabled = moderation.maxPlayers <= 2;
+      minus.onclick = () => moderation.onMaxPlayersChange(moderation.maxPlayers - 1);
+      const plus = document.createElement("button");
+      plus.innerText = "+";
+      plus.disabled = moderation.maxPlayers >= moderation.maxPlayersLimit;
+      plus.onclick = () => moderation.onMaxPlayersChange(moderation.maxPlayers + 1);
+      capacity.append(`Max ${moderation.maxPlayers} `, minus, plus);
+      settings.appendChild(capacity);
+
+      const lockBtn = document.createElement("button");
+      lockBtn.innerText = moderation.locked ? "Unlock" : "Lock";
+      lockBtn.title = moderation.locked
+        ? "Allow new players to join"
+        : "Stop new players from joining";
+      lockBtn.onclick = () => moderation.onToggleLock();
+      settings.appendChild(lockBtn);
+
+      list.appendChild(settings);
+    }
+
+    players.forEach((player) => {
+      const row = document.createElement("div");
+      row.className = "ui-lobby-players-row";
+
+      const name = document.createElement("span");
+      name.innerText = player.id === myId ? `${player.nickname} (you)` : player.nickname;
+      if (player.spectator) {
+        name.innerText += " 👁";
+        name.title = "Spectator";
+      }
+      row.appendChild(name);
+
+      const ping = document.createElement("span");
+      if (player.isHost) {
+        ping.innerText = "host";
+      } else if (pings[player.id] !== undefined) {
+        ping.innerText = `${pings[player.id]} ms`;
+        ping.style.color = this.getPingColor(pings[player.id]);
+      } else {
+        ping.innerText = "...";
+      }
+      row.appendChild(ping);
+
+      if (moderation && player.id !== myId) {
+        const actions = document.createElement("span");
+        actions.className = "ui-lobby-moderation";
+        const kickBtn = document.createElement("button");
+        kickBtn.innerText = "Kick";
+        kickBtn.onclick = () => moderation.onKick(player.id);
+        const banBtn = document.createElement("button");
+        banBtn.innerText = "Ban";
+        banBtn.onclick = () => moderation.onBan(player.id);
+        actions.append(kickBtn, banBtn);
+        row.appendChild(actions);
+      }
+
+      list!.appendChild(row);
+    });
+
+    const me = players.find((p) => p.id === myId);
+    if (me) {
+      const spectateBtn = document.createElement("button");
+      spectateBtn.className = "ui-lobby-spectate";
+      spectateBtn.innerText = me.spectator ? "Play" : "Spectate";
+      spectateBtn.onclick = () => onToggleSpectator();
+      list.appendChild(spectateBtn);
+    }
+  }
+
+  /**
+   * 房主编辑比赛规则，开始比赛时下发给所有玩家
+   */
+  public updateLobbyRules(
+    rules: MatchRules,
+    onChange: (change: Partial<MatchRules>) => void
+  ): void {
+    let panel = document.getElementById("ui-lobby-rules");
+    if (!panel) {
+      panel = document.createElement("div");
+      panel.id = "ui-lobby-rules";
+      panel.className = "ui-lobby-players ui-lobby-rules ui-element";
+      this.uiLayer.appendChild(panel);
+    }
+    panel.innerHTML = "";
+
+    const header = document.createElement("div");
+    header.className = "ui-lobby-players-row ui-lobby-players-header";
+    header.innerText = "Match Rules";
+    panel.appendChild(header);
+
+    MATCH_RULE_FIELDS.forEach(({ key, label, min, max, step }) => {
+      const row = document.createElement("div");
+      row.className = "ui-lobby-players-row ui-lobby-moderation";
+
+      const name = document.createElement("span");
+      name.innerText = label;
+      row.appendChild(name);
+
+      const value = rules[key];
+      const control = document.createElement("span");
+      const minus = document.createElement("button");
+      minus.innerText = "-";
+      minus.disabled = value <= min;
+      minus.onclick = () => onChange({ [key]: value - step });
+      const plus = document.createElement("button");
+      plus.innerText = "+";
+      plus.disabled = value >= max;
+      plus.onclick = () => onChange({ [key]: value + step });
+      // 回合数和时限为 0 表示不限
+      const isUnlimited =
+        value === 0 && (key === "roundLimit" || key === "buildTimeLimit");
+      control.append(isUnlimited ? "Off" : `${value}`, minus, plus);
+      row.appendChild(control);
+
+      panel!.appendChild(row);
+    });
+
+    // 决胜方式：点击切换
+    const tieRow = document.createElement("div");
+    tieRow.className = "ui-lobby-players-row ui-lobby-moderation";
+    const tieName = document.createElement("span");
+    tieName.innerText = "Tie-break";
+    tieRow.appendChild(tieName);
+
+    const tieIndex = TIE_BREAKS.findIndex((t) => t.id === rules.tieBreak);
+    const tieBtn = document.createElement("button");
+    tieBtn.innerText = TIE_BREAKS[tieIndex]?.label ?? rules.tieBreak;
+    tieBtn.onclick = () =>
+      onChange({ tieBreak: TIE_BREAKS[(tieIndex + 1) % TIE_BREAKS.length].id });
+    tieRow.appendChild(tieBtn);
+    panel.appendChild(tieRow);
+  }
+
+  /**
+   * 比赛中右上角的网络指示器，rtt 为 null 表示本机是房主
+   */
+  public showNetworkIndicator(rtt: number | null): void {
+    let indicator = document.getElementById("ui-net-indicator");
+    if (!indicator) {
+      indicator = document.createElement("div");
+      indicator.id = "ui-net-indicator";
+      indicator.className = "ui-net-indicator";
+      this.uiLayer.appendChild(indicator);
+    }
+
+    indicator.innerText = rtt === null ? "HOST" : `${rtt} ms`;
+    indicator.style.borderColor = rtt === null ? "#4CAF50" : this.getPingColor(rtt);
+  }
+
+  public hideNetworkIndicator(): void {
+    document.getElementById("ui-net-indicator")?.remove();
+  }
+
+  /**
+   * 选择和放置阶段的剩余时间，null 时隐藏
+   */
+  public showBuildTimer(secondsLeft: number | null): void {
+    let timer = document.getElementById("ui-build-timer");
+    if (secondsLeft === null) {
+      timer?.remove();
+      return;
+    }
+    if (!timer) {
+      timer = document.createElement("div");
+      timer.id = "ui-build-timer";
+      timer.className = "ui-build-timer";
+      this.uiLayer.appendChild(timer);
+    }
+
+    const seconds = Math.ceil(secondsLeft);
+    timer.innerText = `${seconds}s`;
+    timer.classList.toggle("ui-build-timer-low", seconds <= 5);
+  }
+
+  private getPingColor(rtt: number): string {
+    if (rtt < 80) return "#4CAF50";
+    if (rtt < 160) return "#FFC107";
+    return "#F44336";
+  }
+
   public cleanupLobbyCharacters(): void {
     this.lobbyCharacterModels.forEach(({ root, nameLabel, charNameLabel }) => {
       if (this.scene) {
@@ -600,19 +897,20 @@ export class UIManager {
   // ========== 分数和胜利界面 ==========
 
   public showScoreScreen(
-    scores: ScoreData[],
-    goalScore: number,
+    ledger: ScoreLedger,
+    rules: MatchRules,
+    getPlayerColor: (playerId: string) => string,
     onComplete: () => void
   ): void {
-    this.scoreScreen.show(scores, goalScore, onComplete);
+    this.scoreScreen.show(ledger, rules, getPlayerColor, onComplete);
   }
 
   public showWinScreen(
-    winnerName: string,
-    winnerCharacter: string,
+    winners: GameWinner[],
+    reason: string | undefined,
     onBackToLobby: () => void
   ): void {
-    this.winScreen.show(winnerName, winnerCharacter, onBackToLobby);
+    this.winScreen.show(winners, reason, onBackToLobby);
   }
 
   // ========== 其他 ==========
@@ -1,3 +1,5 @@
+import { MAX_CHAT_LENGTH } from "../../utils/TextSanitizer";
+
 /**
  * 聊天系统组件
  */
@@ -27,7 +29,7 @@ export class ChatSystem {
     this.chatInput.type = "text";
     this.chatInput.className = "chat-input";
     this.chatInput.placeholder = "Type a message...";
-    this.chatInput.maxLength = 200;
+    this.chatInput.maxLength = MAX_CHAT_LENGTH;
 
     this.chatInput.addEventListener("keydown", (e) => {
       e.stopPropagation();
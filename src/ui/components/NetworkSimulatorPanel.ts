@@ -0,0 +1,166 @@
+import {
+  SimulatedTransport,
+  NetworkConditions,
+} from "../../network/transports/SimulatedTransport";
+
+/**
+ * 网络模拟调试面板（F8 显示/隐藏）
+ */
+export class NetworkSimulatorPanel {
+  private static readonly ALL_PEERS = "";
+  private static readonly FIELDS: {
+    key: keyof NetworkConditions;
+    label: string;
+    max: number;
+    step: number;
+  }[] = [
+    { key: "latency", label: "Latency (ms)", max: 1000, step: 10 },
+    { key: "jitter", label: "Jitter (ms)", max: 500, step: 10 },
+    { key: "drop", label: "Drop", max: 1, step: 0.01 },
+    { key: "duplicate", label: "Duplicate", max: 1, step: 0.01 },
+    { key: "reorder", label: "Reorder", max: 1, step: 0.01 },
+  ];
+
+  private simulator: SimulatedTransport;
+  private container: HTMLElement;
+  private peerSelect: HTMLSelectElement;
+  private inputs: Map<keyof NetworkConditions, HTMLInputElement> = new Map();
+  private values: Map<keyof NetworkConditions, HTMLElement> = new Map();
+
+  constructor(simulator: SimulatedTransport, visible: boolean = false) {
+    this.simulator = simulator;
+
+    this.container = document.createElement("div");
+    this.container.className = "net-sim-panel ui-element";
+    // 面板上的点击不能传到游戏（否则会触发选择/放置）
+    this.container.addEventListener("click", (e) => e.stopPropagation());
+    this.container.addEventListener("mousedown", (e) => e.stopPropagation());
+    this.container.addEventListener("keydown", (e) => e.stopPropagation());
+
+    const title = document.createElement("div");
+    title.className = "net-sim-title";
+    title.innerText = "Network Simulator (F8)";
+    this.container.appendChild(title);
+
+    this.peerSelect = document.createElement("select");
+    this.peerSelect.className = "net-sim-peer";
+    this.peerSelect.onfocus = () => this.refreshPeers();
+    this.peerSelect.onchange = () => this.loadConditions();
+    this.container.appendChild(this.peerSelect);
+
+    NetworkSimulatorPanel.FIELDS.forEach((field) => {
+      const row = document.createElement("label");
+      row.className = "net-sim-row";
+
+      const name = document.createElement("span");
+      name.innerText = field.label;
+      row.appendChild(name);
+
+      const input = document.createElement("input");
+      input.type = "range";
+      input.min = "0";
+      input.max = String(field.max);
+      input.step = String(field.step);
+      input.oninput = () => this.applyConditions();
+      row.appendChild(input);
+
+      const value = document.createElement("span");
+      value.className = "net-sim-value";
+      row.appendChild(value);
+
+      this.inputs.set(field.key, input);
+      this.values.set(field.key, value);
+      this.container.appendChild(row);
+    });
+
+    const resetBtn = document.createElement("button");
+    resetBtn.className = "net-sim-reset";
+    resetBtn.innerText = "Reset";
+    resetBtn.onclick = () => {
+      this.inputs.forEach((input) => (input.value = "0"));
+      this.applyConditions();
+    };
+    this.container.appendChild(resetBtn);
+
+    document.body.appendChild(this.container);
+    this.refreshPeers();
+    this.setVisible(visible);
+
+    window.addEventListener("keydown", (e) => {
+      if (e.key === "F8") {
+        e.preventDefault();
+        this.setVisible(this.container.style.display === "none");
+      }
+    });
+  }
+
+  public setVisible(visible: boolean): void {
+    this.container.style.display = visible ? "block" : "none";
+    if (visible) {
+      this.refreshPeers();
+    }
+  }
+
+  /**
+   * 对端列表会随玩家加入/离开变化，打开下拉框时刷新
+   */
+  private refreshPeers(): void {
+    const selected = this.peerSelect.value;
+    this.peerSelect.innerHTML = "";
+
+    const allOption = document.createElement("option");
+    allOption.value = NetworkSimulatorPanel.ALL_PEERS;
+    allOption.innerText = "All peers";
+    this.peerSelect.appendChild(allOption);
+
+    this.simulator.getPeerIds().forEach((peerId) => {
+      const option = document.createElement("option");
+      option.value = peerId;
+      option.innerText = peerId;
+      this.peerSelect.appendChild(option);
+    });
+
+    this.peerSelect.value = this.simulator.getPeerIds().includes(selected)
+      ? selected
+      : NetworkSimulatorPanel.ALL_PEERS;
+    this.loadConditions();
+  }
+
+  private loadConditions(): void {
+    const conditions = this.simulator.getConditions(
+      this.peerSelect.value || undefined
+    );
+    this.inputs.forEach((input, key) => {
+      input.value = String(conditions[key]);
+    });
+    this.updateLabels();
+  }
+
+  private applyConditions(): void {
+    const conditions = {} as NetworkConditions;
+    this.inputs.forEach((input, key) => {
+      conditions[key] = Number(input.value);
+    });
+
+    const peerId = this.peerSelect.value;
+    if (peerId === NetworkSimulatorPanel.ALL_PEERS) {
+      this.simulator.setConditions(conditions);
+    } else {
+      this.simulator.setPeerConditions(peerId, conditions);
+    }
+    this.updateLabels();
+  }
+
+  private updateLabels(): void {
+    this.inputs.forEach((input, key) => {
+      const value = Number(input.value);
+      const label = this.values.get(key);
+      if (label) {
+        label.innerText =
+          key === "latency" || key === "jitter"
+            ? `${value}`
+            : `${Math.round(value * 100)}%`;
+      }
+    });
+  }
+}
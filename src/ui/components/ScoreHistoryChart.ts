@@ -0,0 +1,295 @@
+import type { ScoreLedger } from "../../core/ScoreLedger";
+import type { ScoreBreakdown } from "../../core/ScoreManager";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+export type ScoreHistoryMode = "line" | "bar";
+
+/**
+ * 比赛分数走势图：每名玩家每回合结束后的累计总分
+ * line: 每名玩家一条折线，节点颜色为该回合得分最多的类型
+ * bar: 每回合每名玩家一根柱，按得分类型堆叠
+ */
+export class ScoreHistoryChart {
+  private static readonly WIDTH = 720;
+  private static readonly HEIGHT = 320;
+  private static readonly PAD_LEFT = 44;
+  private static readonly PAD_RIGHT = 16;
+  private static readonly PAD_TOP = 16;
+  private static readonly PAD_BOTTOM = 32;
+
+  private ledger: ScoreLedger;
+  private pointsToWin: number;
+  private getPlayerColor: (playerId: string) => string;
+
+  constructor(
+    ledger: ScoreLedger,
+    pointsToWin: number,
+    getPlayerColor: (playerId: string) => string
+  ) {
+    this.ledger = ledger;
+    this.pointsToWin = pointsToWin;
+    this.getPlayerColor = getPlayerColor;
+  }
+
+  public render(mode: ScoreHistoryMode): HTMLElement {
+    const wrapper = document.createElement("div");
+
+    const players = this.ledger.getPlayers();
+    const roundCount = this.ledger.getRoundCount();
+    const categories = this.collectCategories();
+
+    const maxTotal = Math.max(0, ...players.map((p) => this.ledger.getTotal(p.id)));
+    const tickStep = Math.max(10, Math.ceil(Math.max(this.pointsToWin, maxTotal) / 50) * 10);
+    const maxY =
+      Math.ceil((Math.max(this.pointsToWin, maxTotal) * 1.1) / tickStep) * tickStep;
+
+    const plotWidth =
+      ScoreHistoryChart.WIDTH - ScoreHistoryChart.PAD_LEFT - ScoreHistoryChart.PAD_RIGHT;
+    const plotHeight =
+      ScoreHistoryChart.HEIGHT - ScoreHistoryChart.PAD_TOP - ScoreHistoryChart.PAD_BOTTOM;
+    const toY = (points: number) =>
+      ScoreHistoryChart.PAD_TOP + plotHeight * (1 - points / maxY);
+
+    const svg = document.createElementNS(SVG_NS, "svg");
+    svg.setAttribute("width", `${ScoreHistoryChart.WIDTH}`);
+    svg.setAttribute("height", `${ScoreHistoryChart.HEIGHT}`);
+    svg.style.display = "block";
+    wrapper.appendChild(svg);
+
+    // 横向刻度线
+    for (let points = 0; points <= maxY; points += tickStep) {
+      const y = toY(points);
+      svg.appendChild(
+        this.createLine(ScoreHistoryChart.PAD_LEFT, y, ScoreHistoryChart.PAD_LEFT + plotWidth, y, "#bbb", 1)
+      );
+      svg.appendChild(
+        this.createText(`${points}`, ScoreHistoryChart.PAD_LEFT - 6, y + 4, "end")
+      );
+    }
+
+    // 胜利分数线
+    const goalY = toY(this.pointsToWin);
+    const goalLine = this.createLine(
+      ScoreHistoryChart.PAD_LEFT, goalY, ScoreHistoryChart.PAD_LEFT + plotWidth, goalY, "#333", 2
+    );
+    goalLine.setAttribute("stroke-dasharray", "6 4");
+    svg.appendChild(goalLine);
+
+    if (mode === "line") {
+      this.renderLines(svg, players, roundCount, plotWidth, toY);
+    } else {
+      this.renderStackedBars(svg, players, roundCount, plotWidth, toY);
+    }
+
+    wrapper.appendChild(this.createLegend(players, categories));
+    return wrapper;
+  }
+
+  private renderLines(
+    svg: SVGSVGElement,
+    players: { id: string; nickname: string }[],
+    roundCount: number,
+    plotWidth: number,
+    toY: (points: number) => number
+  ): void {
+    // 从 0 分（比赛开始）到每个回合结束
+    const toX = (round: number) =>
+      ScoreHistoryChart.PAD_LEFT + (plotWidth * round) / Math.max(roundCount, 1);
+
+    for (let round = 1; round <= roundCount; round++) {
+      svg.appendChild(
+        this.createText(`R${round}`, toX(round), ScoreHistoryChart.HEIGHT - 10, "middle")
+      );
+    }
+
+    players.forEach((player) => {
+      const color = this.getPlayerColor(player.id);
+      const history = [0, ...this.ledger.getHistory(player.id)];
+
+      const line = document.createElementNS(SVG_NS, "polyline");
+      line.setAttribute(
+        "points",
+        history.map((points, round) => `${toX(round)},${toY(points)}`).join(" ")
+      );
+      line.setAttribute("fill", "none");
+      line.setAttribute("stroke", color);
+      line.setAttribute("stroke-width", "3");
+      svg.appendChild(line);
+
+      history.slice(1).forEach((points, round) => {
+        const score = this.ledger.getRoundScore(player.id, round);
+        const top = score?.breakdown.reduce<ScoreBreakdown | undefined>(
+          (best, b) => (!best || b.points > best.points ? b : best),
+          undefined
+        );
+
+        const dot = document.createElementNS(SVG_NS, "circle");
+        dot.setAttribute("cx", `${toX(round + 1)}`);
+        dot.setAttribute("cy", `${toY(points)}`);
+        dot.setAttribute("r", "5");
+        dot.setAttribute("fill", top ? top.color : "#fff");
+        dot.setAttribute("stroke", color);
+        dot.setAttribute("stroke-width", "2");
+        dot.appendChild(this.createTitle(player, round, points));
+        svg.appendChild(dot);
+      });
+    });
+  }
+
+  private renderStackedBars(
+    svg: SVGSVGElement,
+    players: { id: string; nickname: string }[],
+    roundCount: number,
+    plotWidth: number,
+    toY: (points: number) => number
+  ): void {
+    const groupWidth = plotWidth / Math.max(roundCount, 1);
+    const barWidth = Math.min(28, (groupWidth * 0.8) / Math.max(players.length, 1));
+    const baseY = toY(0);
+
+    for (let round = 0; round < roundCount; round++) {
+      const groupLeft =
+        ScoreHistoryChart.PAD_LEFT + groupWidth * round + (groupWidth - barWidth * players.length) / 2;
+      svg.appendChild(
+        this.createText(
+          `R${round + 1}`,
+          ScoreHistoryChart.PAD_LEFT + groupWidth * (round + 0.5),
+          ScoreHistoryChart.HEIGHT - 10,
+          "middle"
+        )
+      );
+
+      players.forEach((player, index) => {
+        const x = groupLeft + barWidth * index;
+
+        // 截至本回合每种类型的累计得分，按类型堆叠
+        const totals = new Map<string, { points: number; color: string }>();
+        for (let r = 0; r <= round; r++) {
+          this.ledger.getRoundScore(player.id, r)?.breakdown.forEach((b) => {
+            const entry = totals.get(b.type) || { points: 0, color: b.color };
+            entry.points += b.points;
+            totals.set(b.type, entry);
+          });
+        }
+
+        let stacked = 0;
+        totals.forEach(({ points, color }) => {
+          if (points <= 0) return;
+          const rect = document.createElementNS(SVG_NS, "rect");
+          rect.setAttribute("x", `${x}`);
+          rect.setAttribute("y", `${toY(stacked + points)}`);
+          rect.setAttribute("width", `${barWidth}`);
+          rect.setAttribute("height", `${toY(stacked) - toY(stacked + points)}`);
+          rect.setAttribute("fill", color);
+          svg.appendChild(rect);
+          stacked += points;
+        });
+
+        // 柱子外框为玩家颜色
+        const outline = document.createElementNS(SVG_NS, "rect");
+        outline.setAttribute("x", `${x}`);
+        outline.setAttribute("y", `${toY(stacked)}`);
+        outline.setAttribute("width", `${barWidth}`);
+        outline.setAttribute("height", `${Math.max(baseY - toY(stacked), 2)}`);
+        outline.setAttribute("fill", "transparent");
+        outline.setAttribute("stroke", this.getPlayerColor(player.id));
+        outline.setAttribute("stroke-width", "2");
+        outline.appendChild(this.createTitle(player, round, stacked));
+        svg.appendChild(outline);
+      });
+    }
+  }
+
+  /**
+   * 账本中出现过的得分类型及其颜色，按首次出现的顺序
+   */
+  private collectCategories(): Map<string, string> {
+    const categories = new Map<string, string>();
+    const players = this.ledger.getPlayers();
+    for (let round = 0; round < this.ledger.getRoundCount(); round++) {
+      players.forEach((player) => {
+        this.ledger.getRoundScore(player.id, round)?.breakdown.forEach((b) => {
+          if (!categories.has(b.type)) categories.set(b.type, b.color);
+        });
+      });
+    }
+    return categories;
+  }
+
+  private createLegend(
+    players: { id: string; nickname: string }[],
+    categories: Map<string, string>
+  ): HTMLElement {
+    const legend = document.createElement("div");
+    legend.style.display = "flex";
+    legend.style.flexWrap = "wrap";
+    legend.style.justifyContent = "center";
+    legend.style.gap = "6px 16px";
+    legend.style.marginTop = "10px";
+    legend.style.fontSize = "14px";
+
+    const addEntry = (label: string, color: string, round: boolean) => {
+      const entry = document.createElement("span");
+      const swatch = document.createElement("span");
+      swatch.style.display = "inline-block";
+      swatch.style.width = "12px";
+      swatch.style.height = "12px";
+      swatch.style.marginRight = "4px";
+      swatch.style.verticalAlign = "middle";
+      swatch.style.backgroundColor = color;
+      swatch.style.borderRadius = round ? "50%" : "0";
+      entry.appendChild(swatch);
+      entry.append(label);
+      legend.appendChild(entry);
+    };
+
+    players.forEach((player) => {
+      addEntry(player.nickname, this.getPlayerColor(player.id), true);
+    });
+    categories.forEach((color, type) => addEntry(type, color, false));
+    return legend;
+  }
+
+  /**
+   * 悬停提示：回合结束时的总分和该回合的得分明细
+   */
+  private createTitle(
+    player: { id: string; nickname: string },
+    round: number,
+    total: number
+  ): SVGTitleElement {
+    const title = document.createElementNS(SVG_NS, "title");
+    const score = this.ledger.getRoundScore(player.id, round);
+    const details = score?.breakdown.map((b) => `+${b.points} ${b.type}`).join(", ");
+    title.textContent =
+      `${player.nickname} · Round ${round + 1}: ${total}` + (details ? ` (${details})` : "");
+    return title;
+  }
+
+  private createLine(
+    x1: number, y1: number, x2: number, y2: number, color: string, width: number
+  ): SVGLineElement {
+    const line = document.createElementNS(SVG_NS, "line");
+    line.setAttribute("x1", `${x1}`);
+    line.setAttribute("y1", `${y1}`);
+    line.setAttribute("x2", `${x2}`);
+    line.setAttribute("y2", `${y2}`);
+    line.setAttribute("stroke", color);
+    line.setAttribute("stroke-width", `${width}`);
+    return line;
+  }
+
+  private createText(
+    text: string, x: number, y: number, anchor: "start" | "middle" | "end"
+  ): SVGTextElement {
+    const label = document.createElementNS(SVG_NS, "text");
+    label.textContent = text;
+    label.setAttribute("x", `${x}`);
+    label.setAttribute("y", `${y}`);
+    label.setAttribute("text-anchor", anchor);
+    label.setAttribute("font-size", "12");
+    label.setAttribute("fill", "#666");
+    return label;
+  }
+}
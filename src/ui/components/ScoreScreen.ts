@@ -1,35 +1,50 @@
-/**
- * Score Result Data
- */
-export interface ScoreData {
-  nickname: string;
-  current: number;
-  added: number;
-  breakdown?: { type: string; points: number; color: string }[];
-}
+import type { MatchRules } from "../../core/MatchRules";
+import type { ScoreLedger } from "../../core/ScoreLedger";
+import { ScoreHistoryChart, ScoreHistoryMode } from "./ScoreHistoryChart";
+
+type ScoreView = "round" | ScoreHistoryMode;
+
+const SCORE_VIEWS: { id: ScoreView; label: string }[] = [
+  { id: "round", label: "This Round" },
+  { id: "line", label: "History: Line" },
+  { id: "bar", label: "History: Stacked" },
+];
 
 /**
  * Score Screen Component
  */
 export class ScoreScreen {
   private uiLayer: HTMLElement;
+  private view: ScoreView = "round"; // 上次选择的视图，下一回合沿用
 
   constructor(uiLayer: HTMLElement) {
     this.uiLayer = uiLayer;
   }
 
+  /**
+   * 显示账本中最近一个回合的结果：之前每回合的得分依次排列，本回合的得分按类型动画增长
+   */
   public show(
-    scores: ScoreData[],
-    goalScore: number,
+    ledger: ScoreLedger,
+    rules: MatchRules,
+    getPlayerColor: (playerId: string) => string, // 与玩家在游戏中的名字颜色一致
     onComplete: () => void
   ): void {
     this.uiLayer.innerHTML = "";
 
-    // 核心尺寸定义
-    const PX_PER_POINT = 10;
-    const MAX_POINTS = 60;
-    const BAR_WIDTH = MAX_POINTS * PX_PER_POINT;
-    const GOAL_POS = goalScore * PX_PER_POINT;
+    const scores = ledger.getLatestResults();
+    const roundCount = ledger.getRoundCount();
+
+    // 核心尺寸定义：图表宽度固定，按胜利分数和最高分缩放
+    const BAR_WIDTH = 600;
+    const TICK_STEP = Math.max(10, Math.ceil(rules.pointsToWin / 50) * 10);
+    const MAX_POINTS =
+      Math.ceil(
+        Math.max(rules.pointsToWin * 1.2, ...scores.map((s) => s.current)) /
+          TICK_STEP
+      ) * TICK_STEP;
+    const PX_PER_POINT = BAR_WIDTH / MAX_POINTS;
+    const GOAL_POS = rules.pointsToWin * PX_PER_POINT;
     const ROW_HEIGHT = 50;
     const ROW_GAP = 20;
     const NAME_WIDTH = 120;
@@ -47,20 +62,74 @@ export class ScoreScreen {
       '"Comic Sans MS", "Chalkboard SE", sans-serif';
 
     const title = document.createElement("h2");
-    title.innerText = "Round Results";
+    title.innerText = `Round ${roundCount} Results`;
     title.style.textAlign = "center";
-    title.style.marginBottom = "30px";
+    title.style.marginBottom = "6px";
     title.style.color = "#333";
     container.appendChild(title);
 
+    const subtitle = document.createElement("div");
+    subtitle.innerText =
+      `First to ${rules.pointsToWin} points` +
+      (rules.roundLimit > 0 ? ` · ${rules.roundLimit} rounds max` : "");
+    subtitle.style.textAlign = "center";
+    subtitle.style.marginBottom = "30px";
+    subtitle.style.fontSize = "14px";
+    subtitle.style.color = "#666";
+    container.appendChild(subtitle);
+
+    // 视图切换：本回合 / 分数走势（折线或堆叠柱）
+    const roundView = document.createElement("div");
+    const historyView = document.createElement("div");
+    const history = new ScoreHistoryChart(ledger, rules.pointsToWin, getPlayerColor);
+
+    const viewButtons = document.createElement("div");
+    viewButtons.style.display = "flex";
+    viewButtons.style.justifyContent = "center";
+    viewButtons.style.gap = "8px";
+    viewButtons.style.marginBottom = "24px";
+    container.appendChild(viewButtons);
+
+    const showView = (view: ScoreView) => {
+      this.view = view;
+      roundView.style.display = view === "round" ? "" : "none";
+      historyView.style.display = view === "round" ? "none" : "";
+      historyView.innerHTML = "";
+      if (view !== "round") {
+        historyView.appendChild(history.render(view));
+      }
+      Array.from(viewButtons.children).forEach((btn, index) => {
+        const selected = SCORE_VIEWS[index].id === view;
+        (btn as HTMLElement).style.backgroundColor = selected ? "#3b2b1a" : "#fff";
+        (btn as HTMLElement).style.color = selected ? "#fff" : "#3b2b1a";
+      });
+    };
+
+    SCORE_VIEWS.forEach(({ id, label }) => {
+      const btn = document.createElement("button");
+      btn.innerText = label;
+      btn.style.padding = "4px 12px";
+      btn.style.border = "2px solid #3b2b1a";
+      btn.style.borderRadius = "8px";
+      btn.style.fontFamily = "inherit";
+      btn.style.fontSize = "14px";
+      btn.style.cursor = "pointer";
+      btn.style.pointerEvents = "auto";
+      btn.onclick = () => showView(id);
+      viewButtons.appendChild(btn);
+    });
+
+    container.appendChild(roundView);
+    container.appendChild(historyView);
+
     const chartContainer = document.createElement("div");
     chartContainer.style.position = "relative";
     chartContainer.style.marginLeft = `${NAME_WIDTH}px`;
     chartContainer.style.width = `${BAR_WIDTH}px`;
-    container.appendChild(chartContainer);
+    roundView.appendChild(chartContainer);
 
     // 刻度线
-    for (let p = 10; p <= MAX_POINTS; p += 10) {
+    for (let p = TICK_STEP; p <= MAX_POINTS; p += TICK_STEP) {
       const tick = document.createElement("div");
       tick.style.position = "absolute";
       tick.style.left = `${p * PX_PER_POINT}px`;
@@ -72,7 +141,7 @@ export class ScoreScreen {
       chartContainer.appendChild(tick);
 
       const label = document.createElement("div");
-      label.innerText = `${p / 10}`;
+      label.innerText = `${p}`;
       label.style.position = "absolute";
       label.style.left = `${p * PX_PER_POINT}px`;
       label.style.bottom = "-25px";
@@ -93,8 +162,6 @@ export class ScoreScreen {
     goalLine.style.zIndex = "15";
     chartContainer.appendChild(goalLine);
 
-    const playerColors = ["#3b5998", "#e07020", "#2a9d4a", "#9b59b6"];
-
     // 收集所有得分类型
     const allScoreTypes: string[] = [];
     scores.forEach((s) => {
@@ -110,7 +177,7 @@ export class ScoreScreen {
     // 每个玩家的行
     scores.forEach((s, i) => {
       const rowTop = i * (ROW_HEIGHT + ROW_GAP);
-      const baseColor = playerColors[i % playerColors.length];
+      const baseColor = getPlayerColor(s.id);
 
       // 名字
       const name = document.createElement("div");
@@ -127,29 +194,35 @@ export class ScoreScreen {
       name.style.color = "#333";
       chartContainer.appendChild(name);
 
-      // 基础分数条
-      const baseScore = s.current - s.added;
+      // 之前回合的分数条：每回合一段，悬停显示回合和得分
       let currentLeft = 0;
+      for (let round = 0; round < roundCount - 1; round++) {
+        const roundScore = ledger.getRoundScore(s.id, round);
+        const points = roundScore
+          ? roundScore.breakdown.reduce((sum, b) => sum + b.points, 0)
+          : 0;
+        if (points <= 0) continue;
 
-      if (baseScore > 0) {
-        const baseBar = document.createElement("div");
-        baseBar.style.position = "absolute";
-        baseBar.style.left = "0";
-        baseBar.style.top = `${rowTop}px`;
-        baseBar.style.width = `${baseScore * PX_PER_POINT}px`;
-        baseBar.style.height = `${ROW_HEIGHT}px`;
-        baseBar.style.backgroundColor = baseColor;
-        baseBar.style.backgroundImage = `repeating-linear-gradient(
+        const roundBar = document.createElement("div");
+        roundBar.title = `Round ${round + 1}: +${points}`;
+        roundBar.style.position = "absolute";
+        roundBar.style.left = `${currentLeft}px`;
+        roundBar.style.top = `${rowTop}px`;
+        roundBar.style.width = `${points * PX_PER_POINT}px`;
+        roundBar.style.height = `${ROW_HEIGHT}px`;
+        roundBar.style.backgroundColor = baseColor;
+        roundBar.style.backgroundImage = `repeating-linear-gradient(
           45deg,
           transparent,
           transparent 4px,
           rgba(255,255,255,0.3) 4px,
           rgba(255,255,255,0.3) 8px
         )`;
-        baseBar.style.border = `2px solid ${baseColor}`;
-        baseBar.style.boxSizing = "border-box";
-        chartContainer.appendChild(baseBar);
-        currentLeft = baseScore * PX_PER_POINT;
+        roundBar.style.border = `2px solid ${baseColor}`;
+        roundBar.style.borderRightColor = "#333";
+        roundBar.style.boxSizing = "border-box";
+        chartContainer.appendChild(roundBar);
+        currentLeft += points * PX_PER_POINT;
       }
 
       // 新增分数条
@@ -198,7 +271,7 @@ export class ScoreScreen {
     labelContainer.style.marginTop = "20px";
     labelContainer.style.textAlign = "center";
     labelContainer.style.minHeight = "30px";
-    container.appendChild(labelContainer);
+    roundView.appendChild(labelContainer);
 
     allScoreTypes.forEach((type, index) => {
       setTimeout(() => {
@@ -224,6 +297,7 @@ export class ScoreScreen {
     chartContainer.style.marginBottom = "40px";
 
     this.uiLayer.appendChild(container);
+    showView(this.view);
 
     // 动画完成后回调
     const totalAnimTime = allScoreTypes.length * 800 + 1500;
@@ -1,6 +1,7 @@
 import * as THREE from "three";
 import * as SkeletonUtils from "three/examples/jsm/utils/SkeletonUtils.js";
 import { Resources } from "../../core/Resources";
+import type { GameWinner } from "../../network/Protocol";
 
 /**
  * Winner Screen Component
@@ -8,8 +9,7 @@ import { Resources } from "../../core/Resources";
 export class WinScreen {
   private uiLayer: HTMLElement;
   private resources: Resources | null = null;
-  private winnerModel: THREE.Group | null = null;
-  private winnerMixer: THREE.AnimationMixer | null = null;
+  private winnerMixers: THREE.AnimationMixer[] = [];
 
   constructor(uiLayer: HTMLElement) {
     this.uiLayer = uiLayer;
@@ -19,11 +19,15 @@ export class WinScreen {
     this.resources = resources;
   }
 
+  /**
+   * 显示赢家，多个赢家时为共同获胜
+   */
   public show(
-    winnerName: string,
-    winnerCharacter: string,
+    winners: GameWinner[],
+    reason: string | undefined,
     onBackToLobby: () => void
   ): void {
+    this.cleanup();
     this.uiLayer.innerHTML = "";
 
     const container = document.createElement("div");
@@ -40,28 +44,49 @@ export class WinScreen {
     container.style.pointerEvents = "auto";
 
     const title = document.createElement("h1");
-    title.innerText = "🏆 WINNER! 🏆";
+    title.innerText = winners.length > 1 ? "🏆 SHARED VICTORY! 🏆" : "🏆 WINNER! 🏆";
     title.style.fontSize = "48px";
     title.style.color = "gold";
     title.style.marginBottom = "20px";
     title.style.textShadow = "2px 2px 4px rgba(0,0,0,0.5)";
     container.appendChild(title);
 
-    const modelContainer = document.createElement("div");
-    modelContainer.id = "winner-model-container";
-    modelContainer.style.width = "200px";
-    modelContainer.style.height = "250px";
-    modelContainer.style.margin = "0 auto 20px auto";
-    modelContainer.style.position = "relative";
-    container.appendChild(modelContainer);
+    // 每个赢家一个角色展示，人多时缩小
+    const modelWidth = winners.length > 2 ? 120 : 200;
+    const modelHeight = winners.length > 2 ? 150 : 250;
+    const modelRow = document.createElement("div");
+    modelRow.style.display = "flex";
+    modelRow.style.justifyContent = "center";
+    modelRow.style.gap = "10px";
+    modelRow.style.marginBottom = "20px";
+    container.appendChild(modelRow);
+
+    const modelContainers = winners.map(() => {
+      const modelContainer = document.createElement("div");
+      modelContainer.className = "winner-model-container";
+      modelContainer.style.width = `${modelWidth}px`;
+      modelContainer.style.height = `${modelHeight}px`;
+      modelContainer.style.position = "relative";
+      modelRow.appendChild(modelContainer);
+      return modelContainer;
+    });
 
     const name = document.createElement("h2");
-    name.innerText = winnerName;
+    name.innerText = winners.map((w) => w.nickname).join(" & ");
     name.style.fontSize = "36px";
-    name.style.marginBottom = "30px";
+    name.style.marginBottom = reason ? "10px" : "30px";
     name.style.color = "#FFD700";
     container.appendChild(name);
 
+    if (reason) {
+      const reasonText = document.createElement("div");
+      reasonText.innerText = reason;
+      reasonText.style.fontSize = "18px";
+      reasonText.style.marginBottom = "30px";
+      reasonText.style.color = "#ccc";
+      container.appendChild(reasonText);
+    }
+
     const btn = document.createElement("button");
     btn.innerText = "BACK TO LOBBY";
     btn.style.padding = "15px 40px";
@@ -87,18 +112,24 @@ export class WinScreen {
 
     this.uiLayer.appendChild(container);
 
-    this.createCharacterDisplay(winnerCharacter, modelContainer);
+    winners.forEach((winner, i) => {
+      this.createCharacterDisplay(
+        winner.character,
+        modelContainers[i],
+        modelWidth,
+        modelHeight
+      );
+    });
   }
 
   private createCharacterDisplay(
     characterId: string,
-    container: HTMLElement
+    container: HTMLElement,
+    width: number,
+    height: number
   ): void {
     if (!this.resources) return;
 
-    const width = 200;
-    const height = 250;
-
     const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
     renderer.setSize(width, height);
     renderer.setClearColor(0x000000, 0);
@@ -115,17 +146,20 @@ export class WinScreen {
     directionalLight.position.set(2, 3, 2);
     scene.add(directionalLight);
 
+    let winnerModel: THREE.Group | null = null;
+    let winnerMixer: THREE.AnimationMixer | null = null;
     const originalModel = this.resources.models.get(characterId);
     if (originalModel) {
       const charModel = SkeletonUtils.clone(originalModel) as THREE.Group;
       charModel.position.set(0, 0, 0);
       charModel.rotation.y = 0;
       scene.add(charModel);
-      this.winnerModel = charModel;
+      winnerModel = charModel;
 
       const animations = this.resources.modelAnimations.get(characterId);
       if (animations && animations.length > 0) {
-        this.winnerMixer = new THREE.AnimationMixer(charModel);
+        winnerMixer = new THREE.AnimationMixer(charModel);
+        this.winnerMixers.push(winnerMixer);
         let danceClip = animations.find((a) =>
           a.name.toLowerCase().includes("dance")
         );
@@ -135,7 +169,7 @@ export class WinScreen {
           );
         if (!danceClip) danceClip = animations[0];
         if (danceClip) {
-          const action = this.winnerMixer.clipAction(danceClip);
+          const action = winnerMixer.clipAction(danceClip);
           action.play();
         }
       }
@@ -151,13 +185,13 @@ export class WinScreen {
       requestAnimationFrame(animate);
 
       const delta = clock.getDelta();
-      if (this.winnerMixer) {
-        this.winnerMixer.update(delta);
+      if (winnerMixer) {
+        winnerMixer.update(delta);
       }
 
-      if (this.winnerModel) {
+      if (winnerModel) {
         rotationAngle += delta * 0.5;
-        this.winnerModel.rotation.y = Math.sin(rotationAngle) * 0.3;
+        winnerModel.rotation.y = Math.sin(rotationAngle) * 0.3;
       }
 
       renderer.render(scene, camera);
@@ -166,7 +200,7 @@ export class WinScreen {
   }
 
   public cleanup(): void {
-    this.winnerModel = null;
-    this.winnerMixer = null;
+    this.winnerMixers.forEach((mixer) => mixer.stopAllAction());
+    this.winnerMixers = [];
   }
 }
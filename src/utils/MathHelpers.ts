@@ -6,4 +6,18 @@ export class MathHelpers {
     static clamp(value: number, min: number, max: number): number {
         return Math.min(Math.max(value, min), max);
     }
+
+    /**
+     * 可复现的伪随机数生成器（mulberry32），返回 [0, 1) 的数
+     */
+    static createRandom(seed: number): () => number {
+        let state = seed >>> 0;
+        return () => {
+            state = (state + 0x6d2b79f5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    }
 }
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+    MAX_CHAT_LENGTH,
+    MAX_NICKNAME_LENGTH,
+    nicknameKey,
+    sanitizeChatMessage,
+    sanitizeNickname,
+} from './TextSanitizer';
+
+describe('sanitizeChatMessage', () => {
+    it('strips angle brackets and control characters', () => {
+        expect(sanitizeChatMessage('<b>hi</b>\u0007 there')).toBe('bhi/b there');
+    });
+
+    it('removes invisible formatting characters', () => {
+        expect(sanitizeChatMessage('a\u202Eb\u200Bc')).toBe('a b c');
+    });
+
+    it('collapses whitespace and trims', () => {
+        expect(sanitizeChatMessage('  hello \n\n  world\t ')).toBe('hello world');
+    });
+
+    it('truncates by code point without splitting emoji', () => {
+        const message = '🐔'.repeat(MAX_CHAT_LENGTH + 10);
+        const sanitized = sanitizeChatMessage(message);
+        expect(Array.from(sanitized)).toHaveLength(MAX_CHAT_LENGTH);
+        expect(sanitized).toBe('🐔'.repeat(MAX_CHAT_LENGTH));
+    });
+
+    it('returns an empty string for whitespace-only input', () => {
+        expect(sanitizeChatMessage(' \u0000 \n ')).toBe('');
+    });
+});
+
+describe('sanitizeNickname', () => {
+    it('limits nicknames to the maximum length', () => {
+        expect(sanitizeNickname('a'.repeat(40))).toBe('a'.repeat(MAX_NICKNAME_LENGTH));
+    });
+
+    it('does not leave trailing spaces after truncation', () => {
+        expect(sanitizeNickname('abcdefghijklmno pqrs')).toBe('abcdefghijklmno');
+    });
+});
+
+describe('nicknameKey', () => {
+    it('matches a banned nickname rejoining with extra characters', () => {
+        const banned = new Set([nicknameKey('Big Bob')]);
+        ['big bob', 'Big <Bob>', 'Big\u200B Bob', 'Big  Bob', ' BIG BOB\u0007'].forEach(nickname => {
+            expect(banned.has(nicknameKey(nickname))).toBe(true);
+        });
+        expect(banned.has(nicknameKey('Big Bobby'))).toBe(false);
+    });
+
+    it('uses the default nickname when nothing is left after cleaning', () => {
+        expect(nicknameKey('<>')).toBe(nicknameKey('Player'));
+    });
+});
@@ -0,0 +1,30 @@
+export const MAX_CHAT_LENGTH = 200;
+export const MAX_NICKNAME_LENGTH = 16;
+
+/**
+ * 清理玩家输入的文本：去掉控制字符、不可见的格式字符和尖括号，合并空白并按字符数截断
+ */
+function sanitizeText(text: string, maxLength: number): string {
+    const cleaned = text
+        .replace(/[\p{Cc}\p{Cf}]/gu, ' ')
+        .replace(/[<>]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    // 按码点截断，避免切断 emoji
+    return Array.from(cleaned).slice(0, maxLength).join('').trim();
+}
+
+export function sanitizeChatMessage(message: string): string {
+    return sanitizeText(message, MAX_CHAT_LENGTH);
+}
+
+export function sanitizeNickname(nickname: string): string {
+    return sanitizeText(nickname, MAX_NICKNAME_LENGTH);
+}
+
+/**
+ * 按昵称封禁时比较用的键：与房主保存昵称时的清理一致，忽略大小写
+ */
+export function nicknameKey(nickname: string): string {
+    return (sanitizeNickname(nickname) || 'Player').toLowerCase();
+}